@@ -0,0 +1,285 @@
+// Deno WebUI
+// Command line tool managing the cache of native WebUI libraries
+
+/**
+ * Manage the cache of native WebUI libraries.
+ *
+ * ```sh
+ * deno run -A jsr:@webui/deno-webui/cli <command>
+ * ```
+ *
+ * @module
+ */
+
+import { join, relative } from "@std/path";
+import {
+  archiveName,
+  archiveUrl,
+  ensureWebUiLib,
+  fetchWebUiLib,
+  findCachedNightly,
+  findLockEntry,
+  getBaseWebUICacheDir,
+  getCoreVersion,
+  hostTarget,
+  libFileName,
+  type LibTarget,
+  readLockFile,
+  sha256,
+  writeLockFile,
+} from "./src/utils.ts";
+
+const usage = `Manage the cache of native WebUI libraries.
+
+Usage: deno run -A jsr:@webui/deno-webui/cli <command> [options]
+
+Commands:
+  list      List the cached versions and their libraries
+  fetch     Download a library into the cache
+              --version <tag>  Release tag or "nightly" (default: the resolved core version)
+              --os <os>        windows, macos or linux (default: current)
+              --arch <arch>    x64 or arm64 (default: current)
+              --sha256 <hex>   Digest of the archive, required for nightly
+  checksums Print the checksums.ts entry of a release
+              --version <tag>  Release tag (default: the resolved core version)
+  verify    Check the cached libraries against the lock file
+  prune     Remove the versions not used by the current project
+              --all            Remove every cached version
+  path      Print the path of the library used by the current project
+`;
+
+/**
+ * Parsed command line: the command and its `--name value` options.
+ */
+interface Args {
+  command: string | undefined;
+  options: Record<string, string | true>;
+}
+
+/**
+ * Parse the command line. Options take the next argument as value, unless it
+ * is another option, or use the `--name=value` form.
+ */
+function parseArgs(args: string[]): Args {
+  const options: Record<string, string | true> = {};
+  let command: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith("--")) {
+      const [name, value] = arg.slice(2).split("=", 2);
+      if (value !== undefined) {
+        options[name] = value;
+      } else if (i + 1 < args.length && !args[i + 1].startsWith("--")) {
+        options[name] = args[++i];
+      } else {
+        options[name] = true;
+      }
+    } else if (command === undefined) {
+      command = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  return { command, options };
+}
+
+/**
+ * Get a string option, throwing if it is given without value.
+ */
+function stringOption(args: Args, name: string): string | undefined {
+  const value = args.options[name];
+  if (value === true) throw new Error(`Missing value for --${name}`);
+  return value;
+}
+
+/**
+ * List the version directories of the cache, with the libraries they hold.
+ */
+async function list(): Promise<void> {
+  const baseDir = await getBaseWebUICacheDir();
+  const lock = await readLockFile(baseDir);
+  const versions: string[] = [];
+  for await (const entry of Deno.readDir(baseDir)) {
+    if (entry.isDirectory) versions.push(entry.name);
+  }
+  if (versions.length === 0) {
+    console.log(`No cached libraries in ${baseDir}`);
+    return;
+  }
+  console.log(baseDir);
+  for (const version of versions.sort()) {
+    console.log(version);
+    for (const [libPath, entry] of Object.entries(lock)) {
+      if (!libPath.startsWith(`${version}/`)) continue;
+      console.log(`  ${libPath.slice(version.length + 1)}  ${entry.archive}`);
+    }
+  }
+}
+
+/**
+ * Download a library into the cache, for any platform.
+ */
+async function prefetch(args: Args): Promise<void> {
+  const host = hostTarget();
+  const os = stringOption(args, "os") ?? host.os;
+  const arch = stringOption(args, "arch") ?? host.arch;
+  if (os !== "windows" && os !== "macos" && os !== "linux") {
+    throw new Error(`Unsupported OS: ${os}`);
+  }
+  if (arch !== "x64" && arch !== "arm64") {
+    throw new Error(`Unsupported architecture: ${arch}`);
+  }
+  const target: LibTarget = { os, arch };
+  const version = stringOption(args, "version") ?? getCoreVersion();
+  console.log(
+    await fetchWebUiLib(version, target, stringOption(args, "sha256")),
+  );
+}
+
+/**
+ * Download every archive of a release and print their digests, as an entry
+ * of `checksums.ts`. Check them against the release before pinning them.
+ */
+async function printChecksums(args: Args): Promise<void> {
+  const version = stringOption(args, "version") ?? getCoreVersion();
+  if (version === "nightly") {
+    throw new Error("Nightly builds can't be pinned, use WEBUI_LIB_SHA256");
+  }
+  const lines: string[] = [];
+  for (const os of ["windows", "macos", "linux"] as const) {
+    for (const arch of ["x64", "arm64"] as const) {
+      const zipFileName = archiveName({ os, arch });
+      const res = await fetch(archiveUrl(version, zipFileName));
+      if (!res.ok) {
+        await res.body?.cancel();
+        console.error(
+          `Skipped ${zipFileName}: ${res.status} ${res.statusText}`,
+        );
+        continue;
+      }
+      const digest = await sha256(new Uint8Array(await res.arrayBuffer()));
+      lines.push(
+        `    ${JSON.stringify(zipFileName)}: ${JSON.stringify(digest)},`,
+      );
+    }
+  }
+  console.log(`  ${JSON.stringify(version)}: {\n${lines.join("\n")}\n  },`);
+}
+
+/**
+ * Check the libraries of the lock file still match their digest.
+ * @returns Whether all libraries are intact.
+ */
+async function verify(): Promise<boolean> {
+  const baseDir = await getBaseWebUICacheDir();
+  const lock = await readLockFile(baseDir);
+  let ok = true;
+  for (const [libPath, entry] of Object.entries(lock)) {
+    let status: string;
+    try {
+      const digest = await sha256(await Deno.readFile(join(baseDir, libPath)));
+      status = digest === entry.sha256 ? "ok" : "modified";
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      status = "missing";
+    }
+    if (status !== "ok") ok = false;
+    console.log(`${status.padEnd(8)}  ${libPath}`);
+  }
+  if (Object.keys(lock).length === 0) {
+    console.log("No libraries in the lock file");
+  }
+  return ok;
+}
+
+/**
+ * Remove the version directories other than the one of the current project,
+ * or all of them, and their lock file entries.
+ */
+async function prune(args: Args): Promise<void> {
+  const baseDir = await getBaseWebUICacheDir();
+  let keep: string | undefined;
+  if (!args.options.all) {
+    const coreVersion = getCoreVersion();
+    if (coreVersion === "nightly") {
+      const locked = findLockEntry(baseDir, coreVersion, hostTarget());
+      if (locked !== undefined) {
+        keep = locked.versionDirName;
+      } else {
+        const nightly = findCachedNightly(
+          baseDir,
+          libFileName(hostTarget().os),
+        );
+        keep = nightly === undefined
+          ? undefined
+          : relative(baseDir, nightly).split(/[\\/]/)[0];
+      }
+    } else {
+      keep = coreVersion;
+    }
+  }
+
+  const removed: string[] = [];
+  for await (const entry of Deno.readDir(baseDir)) {
+    if (!entry.isDirectory || entry.name === keep) continue;
+    await Deno.remove(join(baseDir, entry.name), { recursive: true });
+    removed.push(entry.name);
+    console.log(`Removed ${entry.name}`);
+  }
+
+  if (removed.length === 0) {
+    console.log("Nothing to remove");
+    return;
+  }
+  const lock = await readLockFile(baseDir);
+  for (const libPath of Object.keys(lock)) {
+    if (removed.some((version) => libPath.startsWith(`${version}/`))) {
+      delete lock[libPath];
+    }
+  }
+  await writeLockFile(baseDir, lock);
+}
+
+/**
+ * Run a command line.
+ * @param args - The command line arguments.
+ * @returns The exit code.
+ */
+async function main(args: string[]): Promise<number> {
+  const parsed = parseArgs(args);
+  switch (parsed.command) {
+    case "list":
+      await list();
+      return 0;
+    case "fetch":
+      await prefetch(parsed);
+      return 0;
+    case "checksums":
+      await printChecksums(parsed);
+      return 0;
+    case "verify":
+      return await verify() ? 0 : 1;
+    case "prune":
+      await prune(parsed);
+      return 0;
+    case "path":
+      console.log(await ensureWebUiLib(libFileName(hostTarget().os)));
+      return 0;
+    case undefined:
+    case "help":
+      console.log(usage);
+      return parsed.options.help || parsed.command ? 0 : 1;
+    default:
+      console.error(`Unknown command: ${parsed.command}\n\n${usage}`);
+      return 1;
+  }
+}
+
+if (import.meta.main) {
+  try {
+    Deno.exit(await main(Deno.args));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  }
+}
@@ -1,12 +1,13 @@
 // Deno WebUI
 // Resolves the path to the required native WebUI library,
 // ensuring it is downloaded to a central cache if needed.
+// Nothing is resolved at import time, see `WebUI.init()`.
 
-import { ensureWebUiLib } from "./src/utils.ts";
+import { ensureWebUiLib, findWebUiLib } from "./src/utils.ts";
 
 // Determine the base library filename based
 // on the current operating system and architecture.
-function getBaseLibName(): string {
+export function getBaseLibName(): string {
   let baseName: string;
   switch (Deno.build.os) {
     case "windows":
@@ -40,13 +41,14 @@ function getBaseLibName(): string {
   return baseName;
 }
 
-// Determine the required base filename
-const baseLibName = getBaseLibName();
+// Find the library without downloading it.
+// Returns undefined when it isn't in the cache yet.
+export function findLibPath(): string | undefined {
+  return findWebUiLib(getBaseLibName());
+}
 
-// Ensure the library exists in the cache (downloads if needed)
-// and export the resolved path.
+// Ensure the library exists in the cache (downloads if needed).
 // This promise resolves to the final path of the library file.
-export const libPath = await ensureWebUiLib(baseLibName);
-
-// Optional: Export the base name too if needed elsewhere
-export { baseLibName };
+export async function resolveLibPath(): Promise<string> {
+  return await ensureWebUiLib(getBaseLibName());
+}
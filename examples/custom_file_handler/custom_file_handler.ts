@@ -10,42 +10,22 @@
 // To import from online package registry (Production)
 import { WebUI } from "@webui/deno-webui";
 
-// Return HTTP header + file raw binary content
-const getFile = async (
-  contentType: string,
-  filename: string,
-): Promise<Uint8Array> => {
-  const content = await Deno.readFile(filename);
-  const header = `HTTP/1.1 200 OK\r\nContent-Type: ${contentType}\r\n\r\n`;
-  const headerBytes = new TextEncoder().encode(header);
-  const response = new Uint8Array(headerBytes.length + content.length);
-  response.set(headerBytes);
-  response.set(content, headerBytes.length);
-  return response;
-};
-
-// Set a custom files handler
-async function myFileHandler(myUrl: URL) {
+// Set a custom files handler, for the routes that aren't files
+function myFileHandler(myUrl: URL): Promise<string> {
   console.log(`File: ${myUrl.pathname}`);
-  // Index example
-  if (myUrl.pathname === "/index.html" || myUrl.pathname === "/") {
-    return await getFile("text/html", "index.html");
-  }
   // Custom text string example
   if (myUrl.pathname === "/test") {
-    return "HTTP/1.1 200 OK\r\nContent-Length: 5\r\n\r\nHello";
-  }
-  // File examples
-  if (myUrl.pathname === "/assets/test_app.js") {
-    return await getFile("application/javascript", "assets/test_app.js");
-  }
-  if (myUrl.pathname === "/assets/webui.jpeg") {
-    return await getFile("image/jpeg", "assets/webui.jpeg");
+    return Promise.resolve(
+      "HTTP/1.1 200 OK\r\nContent-Length: 5\r\n\r\nHello",
+    );
   }
   // Error 404 example
-  return "HTTP/1.1 404 Not Found";
+  return Promise.resolve("HTTP/1.1 404 Not Found");
 }
 
+// Load the WebUI library, downloading it on first run
+await WebUI.init();
+
 // Create new window
 const myWindow = new WebUI();
 
@@ -55,6 +35,11 @@ myWindow.bind("exit", () => {
   WebUI.exit();
 });
 
+// Serve `index.html` and `assets/` from the current folder, with MIME
+// types. Missing files go to `myFileHandler`.
+// Note: Should be called before `.show()`
+myWindow.setRequestHandler(WebUI.serveStatic("."));
+
 // Set files handler
 // Note: Should be called before `.show()`
 myWindow.setFileHandler(myFileHandler);
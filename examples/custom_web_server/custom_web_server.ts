@@ -58,6 +58,9 @@ function myBackendFunc(e: WebUI.Event) {
   console.log(`Third argument: ${c}`);
 }
 
+// Load the WebUI library, downloading it on first run
+await WebUI.init();
+
 // Create new window
 const myWindow = new WebUI();
 
@@ -77,6 +77,9 @@ const myHtml = `
     </body>
   </html>`;
 
+// Load the WebUI library, downloading it on first run
+await WebUI.init();
+
 // Create new window
 const myWindow = new WebUI();
 
@@ -103,6 +103,9 @@ async function calculate(e: WebUI.Event) {
   e.window.run(`set_result(${result});`);
 }
 
+// Load the WebUI library, downloading it on first run
+await WebUI.init();
+
 // Create new window
 const myWindow = new WebUI();
 
@@ -79,6 +79,9 @@ async function get_raw_picture(e: WebUI.Event) {
   e.window.sendRaw("setRawImage", pictureRaw);
 }
 
+// Load the WebUI library, downloading it on first run
+await WebUI.init();
+
 // Create new window
 const myWindow = new WebUI();
 
@@ -18,6 +18,7 @@
  * ```ts
  * import { WebUI } from "jsr:@webui/deno-webui@2.5.15";
  *
+ * await WebUI.init();
  * const myWindow = new WebUI();
  * await myWindow.show("<html><script src=\"webui.js\"></script> Hello World! </html>");
  * await WebUI.wait();
@@ -27,4 +28,37 @@
  * @license MIT
  */
 export { WebUI } from "./src/webui.ts";
-export type { BindCallback, Datatypes, WebUIEvent } from "./src/types.ts";
+export { WebUIClient, WebUIClients } from "./src/client.ts";
+export type { WebUIClientsEventMap } from "./src/client.ts";
+export type { Listener } from "./src/events.ts";
+export type { ServeStaticOptions } from "./src/static.ts";
+export type { ProxyOptions } from "./src/proxy.ts";
+export type { DevOptions, DevWatcher } from "./src/dev.ts";
+export { compress, logger, route, securityHeaders } from "./src/middleware.ts";
+export {
+  BrowserLaunchError,
+  BrowserNotFoundError,
+  ConnectionTimeoutError,
+  IntegrityError,
+  PortInUseError,
+  ScriptTimeoutError,
+  TlsError,
+  WebUIError,
+} from "./src/errors.ts";
+export type { WebUIErrorOptions } from "./src/errors.ts";
+export type {
+  ApiClient,
+  BindCallback,
+  Datatypes,
+  ExposedFunction,
+  LogHandler,
+  LogTarget,
+  Middleware,
+  MiddlewareContext,
+  RequestContext,
+  RequestHandler,
+  Serializable,
+  WebUIEvent,
+  WebUIEventMap,
+  WebUINavigationEvent,
+} from "./src/types.ts";
@@ -0,0 +1,293 @@
+// Deno WebUI
+// Browser-side bridge, injected into each client when it connects
+
+import { ERROR_PREFIX, ESCAPED_KEY, EXPOSE_PREFIX, TAG } from "./rpc.ts";
+import { STREAM_ACK, STREAM_RECEIVER } from "./stream.ts";
+
+/** Id of the binding answering with the bridge script, for pages asking it. */
+export const BRIDGE_ID = "__webuiDenoBridge";
+
+// Resolves to the bridge, asking the backend for it once `webui.js` is
+// connected, unless it was sent in the meantime. Shared by the page stubs
+// and the `exposeApi()` module.
+const ready = `const ready = () =>
+  globalThis.__webuiDeno ? Promise.resolve(globalThis.__webuiDeno) :
+  globalThis.__webuiDenoLoading ??= (async () => {
+    while (!globalThis.__webuiDeno && !globalThis.webui?.isConnected?.()) {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+    if (!globalThis.__webuiDeno) {
+      new Function(await globalThis.webui.call(${JSON.stringify(BRIDGE_ID)}))();
+    }
+    return globalThis.__webuiDeno;
+  })().finally(() => delete globalThis.__webuiDenoLoading);`;
+
+// Installed once per page as `globalThis.__webuiDeno`. Mirrors `encode()`,
+// `decode()` and the error responses from `rpc.ts`.
+const runtime = `
+const TAG = ${JSON.stringify(TAG)};
+const ERROR_PREFIX = ${JSON.stringify(ERROR_PREFIX)};
+const EXPOSE_PREFIX = ${JSON.stringify(EXPOSE_PREFIX)};
+const ESCAPED_KEY = ${ESCAPED_KEY};
+const STREAM_ACK = ${JSON.stringify(STREAM_ACK)};
+const rawCall = webui.call.bind(webui);
+const bridge = {
+  encode(value) {
+    if (value === undefined) return JSON.stringify({ [TAG]: "undefined" });
+    return JSON.stringify(
+      value,
+      function (key, v) {
+        const raw = this[key];
+        if (raw instanceof Date) return { [TAG]: "date", value: raw.toISOString() };
+        if (typeof raw === "bigint") return { [TAG]: "bigint", value: raw.toString() };
+        if (raw === undefined) return { [TAG]: "undefined" };
+        if (
+          v !== null && typeof v === "object" && !Array.isArray(v) &&
+          Object.keys(v).some((k) => ESCAPED_KEY.test(k))
+        ) {
+          return Object.fromEntries(Object.entries(v).map(([k, item]) =>
+            [ESCAPED_KEY.test(k) ? "$" + k : k, item]));
+        }
+        return v;
+      },
+    );
+  },
+  decode(text) {
+    const revive = (v) => {
+      if (Array.isArray(v)) return v.map(revive);
+      if (v === null || typeof v !== "object") return v;
+      if (TAG in v) {
+        if (v[TAG] === "date") return new Date(v.value);
+        if (v[TAG] === "bigint") return BigInt(v.value);
+        if (v[TAG] === "undefined") return undefined;
+      }
+      return Object.fromEntries(Object.entries(v).map(([k, item]) =>
+        [ESCAPED_KEY.test(k) ? k.slice(1) : k, revive(item)]));
+    };
+    return revive(JSON.parse(text));
+  },
+  error(info) {
+    const error = new Error(info.message);
+    error.name = info.name;
+    if (info.code !== undefined) error.code = info.code;
+    return error;
+  },
+  async checkedCall(name, ...args) {
+    const response = await rawCall(name, ...args);
+    if (typeof response === "string" && response.startsWith(ERROR_PREFIX)) {
+      throw bridge.error(JSON.parse(response.slice(ERROR_PREFIX.length)));
+    }
+    return response;
+  },
+  async call(name, args) {
+    return bridge.decode(
+      await bridge.checkedCall(EXPOSE_PREFIX + name, bridge.encode(args)),
+    );
+  },
+  bind(names) {
+    for (const name of names) {
+      globalThis[name] = (...args) => bridge.checkedCall(name, ...args);
+    }
+  },
+  expose(names) {
+    for (const name of names) {
+      globalThis[name] = (...args) => bridge.call(name, args);
+    }
+  },
+  streams: new Map(),
+  unclaimed: new Map(),
+  waiting: new Map(),
+  stream(name) {
+    const opened = bridge.unclaimed.get(name);
+    if (opened?.length) return Promise.resolve(opened.shift());
+    return new Promise((resolve) => {
+      if (!bridge.waiting.has(name)) bridge.waiting.set(name, []);
+      bridge.waiting.get(name).push(resolve);
+    });
+  },
+  open(id, name) {
+    const entry = { chunks: [], done: false, failed: false, wake: undefined };
+    const readable = new ReadableStream({
+      start(controller) {
+        entry.controller = controller;
+      },
+      async pull(controller) {
+        while (!entry.chunks.length && !entry.done && !entry.failed) {
+          await new Promise((resolve) => entry.wake = resolve);
+        }
+        if (entry.failed) return;
+        if (entry.chunks.length) {
+          const [seq, chunk] = entry.chunks.shift();
+          controller.enqueue(chunk);
+          // Acknowledge once the chunk is read, the backend waits for it
+          rawCall(STREAM_ACK, id, seq);
+        } else {
+          controller.close();
+          bridge.streams.delete(id);
+        }
+      },
+    }, { highWaterMark: 0 });
+    bridge.streams.set(id, entry);
+    const waiter = bridge.waiting.get(name)?.shift();
+    if (waiter) {
+      waiter(readable);
+    } else {
+      if (!bridge.unclaimed.has(name)) bridge.unclaimed.set(name, []);
+      bridge.unclaimed.get(name).push(readable);
+    }
+  },
+  receive(data) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const type = view.getUint8(0);
+    const id = view.getUint32(1);
+    const seq = view.getUint32(5);
+    const payload = data.subarray(9);
+    if (type === 0) return bridge.open(id, new TextDecoder().decode(payload));
+    const entry = bridge.streams.get(id);
+    if (!entry) return;
+    if (type === 1) {
+      entry.chunks.push([seq, payload.slice()]);
+    } else if (type === 2) {
+      entry.done = true;
+    } else if (type === 3) {
+      entry.failed = true;
+      entry.controller.error(new Error(new TextDecoder().decode(payload)));
+      bridge.streams.delete(id);
+    }
+    entry.wake?.();
+  },
+};
+webui.call = bridge.checkedCall;
+globalThis[${JSON.stringify(STREAM_RECEIVER)}] = (data) => bridge.receive(data);
+globalThis.webuiStream = (name) => bridge.stream(name);
+return bridge;
+`;
+
+/**
+ * Build the script installing the bridge in the browser. Backend errors make
+ * `webui.call()` and the bound globals reject instead of resolving.
+ * @param names.bound - Ids registered with `bind()`.
+ * @param names.exposed - Names of the functions registered with `expose()`.
+ * @returns JavaScript to run in the client.
+ */
+export function bridgeScript(
+  names: { bound: string[]; exposed: string[] },
+): string {
+  return `(() => {
+let bridge = globalThis.__webuiDeno;
+if (!bridge) {
+  bridge = globalThis.__webuiDeno = (() => {${runtime}})();
+  globalThis.dispatchEvent?.(new Event("webui:bridge"));
+}
+bridge.bind(${JSON.stringify(names.bound)});
+bridge.expose(${JSON.stringify(names.exposed)});
+})();`;
+}
+
+/**
+ * Build the script defining the bound and exposed globals before the bridge
+ * is installed, so the page can call them right away, e.g. from the
+ * `CONNECTED` callback. Calls wait for the bridge, and ask the backend for
+ * it through `BRIDGE_ID` once connected. Run it before `webui.js`, which
+ * keeps the globals that already exist.
+ * @param names.bound - Ids registered with `bind()`.
+ * @param names.exposed - Names of the functions registered with `expose()`.
+ * @returns JavaScript to run in the page.
+ */
+export function bridgeStubScript(
+  names: { bound: string[]; exposed: string[] },
+): string {
+  return `(() => {
+${ready}
+for (const name of ${JSON.stringify(names.bound)}) {
+  globalThis[name] ??= async (...args) => (await ready()).checkedCall(name, ...args);
+}
+for (const name of ${JSON.stringify(names.exposed)}) {
+  globalThis[name] ??= async (...args) => (await ready()).call(name, args);
+}
+})();`;
+}
+
+/**
+ * Build the ES module served by `exposeApi()`. Each exposed function is
+ * exported under its own name, and all of them on the default export.
+ * Calls made before the bridge is installed wait for it, like the stubs.
+ * @param exposed - Names of the functions registered with `expose()`.
+ * @returns The module source.
+ */
+export function apiClientModule(exposed: string[]): string {
+  const lines = [
+    "// Generated by Deno WebUI. Do not edit.",
+    ready,
+    "const call = async (name, args) => (await ready()).call(name, args);",
+  ];
+  exposed.forEach((name, i) => {
+    lines.push(
+      `const f${i} = (...args) => call(${JSON.stringify(name)}, args);`,
+    );
+  });
+  const entries = exposed.map((name, i) => `${JSON.stringify(name)}: f${i}`);
+  const exports = exposed
+    .map((name, i) => `f${i} as ${JSON.stringify(name)}`)
+    .filter((_, i) => exposed[i] !== "default");
+  lines.push(`export default { ${entries.join(", ")} };`);
+  lines.push(`export { ${exports.join(", ")} };`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Wrap a `script()` call so large results stay in the page. The wrapped
+ * script returns `"0" + result` when the UTF-8 result fits in `limit` bytes,
+ * otherwise it keeps the result under `id` and returns `"1" + length`.
+ * @param script - The user script.
+ * @param id - Key of the stored result.
+ * @param limit - Response buffer size in bytes.
+ * @returns JavaScript to run in the client.
+ */
+export function scriptResultWrapper(
+  script: string,
+  id: string,
+  limit: number,
+): string {
+  return `const result = String(await (async () => {
+${script}
+})());
+if (new TextEncoder().encode(result).byteLength < ${limit - 1}) {
+  return "0" + result;
+}
+(globalThis.__webuiDenoResults ??= {})[${JSON.stringify(id)}] = result;
+return "1" + result.length;`;
+}
+
+/**
+ * Read part of a result stored by `scriptResultWrapper()`, without splitting
+ * a surrogate pair. The stored result is dropped after the last part.
+ * @param id - Key of the stored result.
+ * @param offset - Start offset, in UTF-16 code units.
+ * @param units - Maximum part length, in UTF-16 code units.
+ * @returns JavaScript to run in the client.
+ */
+export function scriptResultPart(
+  id: string,
+  offset: number,
+  units: number,
+): string {
+  return `const results = globalThis.__webuiDenoResults ?? {};
+const result = results[${JSON.stringify(id)}];
+if (result === undefined) throw new Error("script result expired");
+let end = Math.min(${offset + units}, result.length);
+const last = result.charCodeAt(end - 1);
+if (end < result.length && last >= 0xd800 && last <= 0xdbff) end--;
+if (end === result.length) delete results[${JSON.stringify(id)}];
+return result.slice(${offset}, end);`;
+}
+
+/**
+ * Drop a result stored by `scriptResultWrapper()`, when its parts are no
+ * longer read (e.g. the reads were aborted or timed out).
+ * @param id - Key of the stored result.
+ * @returns JavaScript to run in the client.
+ */
+export function scriptResultDrop(id: string): string {
+  return `delete globalThis.__webuiDenoResults?.[${JSON.stringify(id)}];`;
+}
@@ -0,0 +1,127 @@
+import { assertEquals } from "@std/assert";
+import {
+  BRIDGE_ID,
+  bridgeScript,
+  bridgeStubScript,
+  scriptResultDrop,
+  scriptResultPart,
+  scriptResultWrapper,
+} from "./bridge.ts";
+import { decode, encode } from "./rpc.ts";
+import { STREAM_RECEIVER } from "./stream.ts";
+
+type Global = Record<string, unknown>;
+
+Deno.test("bridgeStubScript() calls made before the bridge wait for it", async () => {
+  const global = globalThis as unknown as Global;
+  new Function(bridgeStubScript({ bound: ["ping"], exposed: ["getUser"] }))();
+  try {
+    const calls: unknown[] = [];
+    const user = (global.getUser as (id: number) => Promise<unknown>)(1);
+    const pong = (global.ping as (arg: string) => Promise<unknown>)("a");
+    await Promise.resolve();
+    assertEquals(calls, []);
+
+    global.__webuiDeno = {
+      call: (name: string, args: unknown[]) => {
+        calls.push(["call", name, args]);
+        return Promise.resolve({ id: args[0] });
+      },
+      checkedCall: (name: string, ...args: unknown[]) => {
+        calls.push(["checkedCall", name, args]);
+        return Promise.resolve("pong");
+      },
+    };
+    dispatchEvent(new Event("webui:bridge"));
+
+    assertEquals(await user, { id: 1 });
+    assertEquals(await pong, "pong");
+    assertEquals(calls, [
+      ["call", "getUser", [1]],
+      ["checkedCall", "ping", ["a"]],
+    ]);
+  } finally {
+    delete global.getUser;
+    delete global.ping;
+    delete global.__webuiDeno;
+  }
+});
+
+Deno.test("bridgeStubScript() asks the backend for the bridge", async () => {
+  const global = globalThis as unknown as Global;
+  const asked: unknown[] = [];
+  global.webui = {
+    isConnected: () => true,
+    call: (name: string) => {
+      asked.push(name);
+      return Promise.resolve(
+        `globalThis.__webuiDeno = { checkedCall: () => Promise.resolve("pong") };`,
+      );
+    },
+  };
+  new Function(bridgeStubScript({ bound: ["ping"], exposed: [] }))();
+  try {
+    const ping = global.ping as () => Promise<unknown>;
+    assertEquals(await Promise.all([ping(), ping()]), ["pong", "pong"]);
+    assertEquals(asked, [BRIDGE_ID]);
+  } finally {
+    delete global.webui;
+    delete global.ping;
+    delete global.__webuiDeno;
+  }
+});
+
+Deno.test("bridgeStubScript() keeps existing globals", () => {
+  const global = globalThis as unknown as Global;
+  const existing = () => "existing";
+  global.getUser = existing;
+  try {
+    new Function(bridgeStubScript({ bound: [], exposed: ["getUser"] }))();
+    assertEquals(global.getUser, existing);
+  } finally {
+    delete global.getUser;
+  }
+});
+
+Deno.test("bridgeScript() encodes like rpc.ts", () => {
+  const global = globalThis as unknown as Global;
+  global.webui = { call: () => Promise.resolve("") };
+  try {
+    new Function(bridgeScript({ bound: [], exposed: [] }))();
+    const bridge = global.__webuiDeno as {
+      encode(value: unknown): string;
+      decode(text: string): unknown;
+    };
+    const value = [
+      { $webui: "date", value: "x", at: new Date(0), big: 1n },
+      undefined,
+    ];
+    assertEquals(bridge.encode(value), encode(value));
+    assertEquals(bridge.decode(encode(value)), value);
+    assertEquals(decode(bridge.encode(value)), value);
+  } finally {
+    delete global.webui;
+    delete global.__webuiDeno;
+    delete global.webuiStream;
+    delete global[STREAM_RECEIVER];
+  }
+});
+
+Deno.test("scriptResultDrop() removes a stored result", async () => {
+  const global = globalThis as unknown as Global;
+  const AsyncFunction = (async () => {}).constructor as FunctionConstructor;
+  try {
+    const head = await new AsyncFunction(
+      scriptResultWrapper('return "x".repeat(100);', "id", 16),
+    )();
+    assertEquals(head, "1100");
+    assertEquals(
+      await new AsyncFunction(scriptResultPart("id", 0, 5))(),
+      "xxxxx",
+    );
+    new Function(scriptResultDrop("id"))();
+    assertEquals(global.__webuiDenoResults, {});
+  } finally {
+    delete global.__webuiDenoResults;
+  }
+});
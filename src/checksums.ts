@@ -0,0 +1,14 @@
+// Deno WebUI
+// Pinned SHA-256 digests of the WebUI release archives
+
+/**
+ * SHA-256 digests (hex) of the release archives, by WebUI core version then
+ * archive name, e.g. `"webui-linux-gcc-x64.zip"`. A release archive is only
+ * accepted if it matches its digest here. Nightly builds change daily and
+ * can't be pinned here, they need `WEBUI_LIB_SHA256` instead.
+ *
+ * To pin a release, add the entry printed by
+ * `deno run -A cli.ts checksums --version <tag>`, after checking it against
+ * the archives of the GitHub release.
+ */
+export const checksums: Record<string, Record<string, string>> = {};
@@ -0,0 +1,225 @@
+// Deno WebUI
+// Client identity for multi-client windows
+
+import type { WebUI } from "../mod.ts";
+import type { WebUILib } from "./types.ts";
+import { toCString } from "./utils.ts";
+import { Emitter, type Listener } from "./events.ts";
+
+/**
+ * One browser connected to a window. Unlike `WebUIEvent`, a client can be
+ * kept and used after the event returns, until the browser disconnects.
+ * Use this API when using `setMultiClient(true)`.
+ */
+export class WebUIClient {
+  #lib: WebUILib;
+  // Copy of the `webui_event_t` the client was seen with, without the
+  // `element` and `cookies` pointers which WebUI frees after the event
+  #event: Uint8Array<ArrayBuffer>;
+
+  /** The window the client is connected to. */
+  readonly window: WebUI;
+  /** The client unique id. */
+  readonly id: number;
+  /** The client connection id. */
+  readonly connectionId: number;
+  /** The client cookies, as sent with the event. */
+  readonly cookies: string;
+  /** When the client connected, or when it was first seen. */
+  readonly connectedAt: Date = new Date();
+  /** Free-form data attached to the client by the application. */
+  data: Record<string, unknown> = {};
+
+  /**
+   * Create a client from a `webui_event_t` pointer. Used by `WebUI` when
+   * dispatching an event, the pointer must still be valid.
+   * @param window - The window the event belongs to.
+   * @param lib - The loaded WebUI library.
+   * @param event - Pointer to the `webui_event_t`.
+   */
+  constructor(window: WebUI, lib: WebUILib, event: Deno.PointerObject) {
+    // struct { size_t window; size_t event_type; char* element;
+    //          size_t event_number; size_t bind_id; size_t client_id;
+    //          size_t connection_id; char* cookies; }
+    const view = new Deno.UnsafePointerView(event);
+    this.#lib = lib;
+    this.#event = new Uint8Array(view.getArrayBuffer(64).slice(0));
+    this.#event.fill(0, 16, 24);
+    this.#event.fill(0, 56, 64);
+    this.window = window;
+    this.id = Number(view.getBigUint64(40));
+    this.connectionId = Number(view.getBigUint64(48));
+    const cookies = view.getPointer(56);
+    this.cookies = cookies !== null
+      ? new Deno.UnsafePointerView(cookies).getCString()
+      : "";
+  }
+
+  /**
+   * Execute a JavaScript string in this client without waiting for the result.
+   * @param {string} script - js code to execute.
+   */
+  run(script: string): void {
+    this.#lib.symbols.webui_run_client(this.#pointer, toCString(script));
+  }
+
+  /**
+   * Navigate this client to a specific URL.
+   * @param {string} url - The URL to navigate to.
+   */
+  navigate(url: string): void {
+    this.#lib.symbols.webui_navigate_client(this.#pointer, toCString(url));
+  }
+
+  /**
+   * Close this client connection.
+   */
+  close(): void {
+    this.#lib.symbols.webui_close_client(this.#pointer);
+  }
+
+  /**
+   * Show new content in this client.
+   * @param {string} content - Valid html content or same root file path.
+   * @returns True if the content was sent.
+   */
+  show(content: string): boolean {
+    return this.#lib.symbols.webui_show_client(
+      this.#pointer,
+      toCString(content),
+    );
+  }
+
+  /**
+   * Safely send raw data to this client.
+   * @param functionName - The name of the function to send data to.
+   * @param raw - The raw data to send.
+   */
+  sendRaw(functionName: string, raw: Uint8Array<ArrayBuffer>): void {
+    this.#lib.symbols.webui_send_raw_client(
+      this.#pointer,
+      toCString(functionName),
+      raw,
+      BigInt(raw.length),
+    );
+  }
+
+  get #pointer(): Deno.PointerValue {
+    return Deno.UnsafePointer.of(this.#event);
+  }
+}
+
+/**
+ * Events emitted by `WebUIClients`.
+ */
+export interface WebUIClientsEventMap {
+  /** A client connected to the window. */
+  connect: WebUIClient;
+  /** A client disconnected from the window. */
+  disconnect: WebUIClient;
+}
+
+/**
+ * The clients connected to a window, see `WebUI.prototype.clients`.
+ */
+export class WebUIClients {
+  #clients: Map<number, WebUIClient> = new Map();
+  #events: Emitter<WebUIClientsEventMap> = new Emitter();
+
+  /** The number of connected clients. */
+  get size(): number {
+    return this.#clients.size;
+  }
+
+  /**
+   * Get a connected client.
+   * @param id - The client id.
+   * @returns The client, or `undefined` if it isn't connected.
+   */
+  get(id: number): WebUIClient | undefined {
+    return this.#clients.get(id);
+  }
+
+  /**
+   * Iterate over the connected clients.
+   * @returns An iterator of clients, in connection order.
+   */
+  [Symbol.iterator](): IterableIterator<WebUIClient> {
+    return this.#clients.values();
+  }
+
+  /**
+   * Add a `connect` or `disconnect` listener.
+   * @param type - The event name.
+   * @param listener - Called with the client.
+   */
+  on<K extends keyof WebUIClientsEventMap>(
+    type: K,
+    listener: Listener<WebUIClientsEventMap[K]>,
+  ): void {
+    this.#events.on(type, listener);
+  }
+
+  /**
+   * Remove a listener added with `on()`.
+   * @param type - The event name.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof WebUIClientsEventMap>(
+    type: K,
+    listener: Listener<WebUIClientsEventMap[K]>,
+  ): void {
+    this.#events.off(type, listener);
+  }
+
+  /**
+   * Execute a JavaScript string in every client, or the ones matching
+   * `filter`, without waiting for the result.
+   * @param {string} script - js code to execute.
+   * @param filter - Optional client filter.
+   */
+  run(script: string, filter?: (client: WebUIClient) => boolean): void {
+    for (const client of this.#clients.values()) {
+      if (filter === undefined || filter(client)) client.run(script);
+    }
+  }
+
+  /**
+   * Send raw data to every client, or the ones matching `filter`.
+   * @param functionName - The name of the function to send data to.
+   * @param raw - The raw data to send.
+   * @param filter - Optional client filter.
+   */
+  sendRaw(
+    functionName: string,
+    raw: Uint8Array<ArrayBuffer>,
+    filter?: (client: WebUIClient) => boolean,
+  ): void {
+    for (const client of this.#clients.values()) {
+      if (filter === undefined || filter(client)) {
+        client.sendRaw(functionName, raw);
+      }
+    }
+  }
+
+  /**
+   * Record a connected client. Called by `WebUI` on `Connected` events.
+   * @param client - The client.
+   */
+  add(client: WebUIClient): void {
+    if (this.#clients.has(client.id)) return;
+    this.#clients.set(client.id, client);
+    this.#events.emit("connect", client);
+  }
+
+  /**
+   * Forget a disconnected client. Called by `WebUI` on `Disconnected` events.
+   * @param id - The client id.
+   */
+  delete(id: number): void {
+    const client = this.#clients.get(id);
+    if (client === undefined) return;
+    this.#clients.delete(id);
+    this.#events.emit("disconnect", client);
+  }
+}
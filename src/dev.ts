@@ -0,0 +1,124 @@
+// Deno WebUI
+// Development mode: reload the UI when files change, see `WebUI.prototype.dev`
+
+import { relative, resolve } from "@std/path";
+
+/**
+ * Options of `WebUI.prototype.dev`.
+ */
+export interface DevOptions {
+  /**
+   * Folder to watch, also set as the window root folder. Defaults to the
+   * working directory.
+   */
+  root?: string;
+  /** Delay in milliseconds to batch changes. Defaults to 100. */
+  debounce?: number;
+  /**
+   * Return `false` to ignore a changed file, given its path relative to
+   * `root` with `/` separators. By default, `.git/` and `node_modules/` are
+   * ignored.
+   */
+  filter?: (path: string) => boolean;
+  /** Stops watching when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Handle of a running development mode.
+ */
+export interface DevWatcher {
+  /** Stop watching. */
+  close(): void;
+}
+
+const defaultFilter = (path: string) =>
+  !/(^|\/)(\.git|node_modules)\//.test(path);
+
+/**
+ * Watch a folder, calling `onChange` with batches of changed paths. Errors
+ * of the watcher or of `onChange` are logged, they don't stop the process.
+ * @param root - The folder to watch.
+ * @param options - The watch options.
+ * @param onChange - Called with the changed paths, relative to `root`.
+ * @returns The watcher. Nothing is watched when `options.signal` is
+ * already aborted.
+ */
+export function watch(
+  root: string,
+  options: DevOptions,
+  onChange: (paths: string[]) => void,
+): DevWatcher {
+  if (options.signal?.aborted) return { close() {} };
+  const filter = options.filter ?? defaultFilter;
+  const debounce = options.debounce ?? 100;
+  const watcher = Deno.watchFs(root, { recursive: true });
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const close = () => {
+    closed = true;
+    clearTimeout(timer);
+    try {
+      watcher.close();
+    } catch {
+      // Already closed
+    }
+  };
+  options.signal?.addEventListener("abort", close, { once: true });
+
+  (async () => {
+    try {
+      for await (const event of watcher) {
+        if (event.kind === "access" || event.kind === "other") continue;
+        for (const path of event.paths) {
+          const file = relative(resolve(root), path).replace(/\\/g, "/");
+          if (filter(file)) changed.add(file);
+        }
+        if (changed.size === 0) continue;
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          const paths = [...changed];
+          changed.clear();
+          try {
+            onChange(paths);
+          } catch (error) {
+            console.error("WebUI dev: reload failed:", error);
+          }
+        }, debounce);
+      }
+    } catch (error) {
+      if (!closed) console.error("WebUI dev: watcher failed:", error);
+    } finally {
+      close();
+    }
+  })();
+
+  return { close };
+}
+
+/**
+ * Build the script applying changes in the browser. Stylesheet changes are
+ * swapped in place when a `<link>` loads them, anything else reloads the
+ * page.
+ * @param paths - The changed paths, relative to the root folder.
+ * @returns JavaScript to run in the clients.
+ */
+export function reloadScript(paths: string[]): string {
+  if (!paths.every((path) => path.endsWith(".css"))) {
+    return "location.reload();";
+  }
+  return `const changed = ${JSON.stringify(paths)};
+let swapped = 0;
+for (const link of document.querySelectorAll('link[rel="stylesheet"]')) {
+  const url = new URL(link.href);
+  const path = decodeURIComponent(url.pathname);
+  if (changed.some((file) => path === "/" + file || path.endsWith("/" + file))) {
+    url.searchParams.set("webui-reload", Date.now());
+    link.href = url.href;
+    swapped++;
+  }
+}
+if (swapped === 0) location.reload();`;
+}
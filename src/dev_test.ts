@@ -0,0 +1,22 @@
+import { assertEquals } from "@std/assert";
+import { reloadScript, watch } from "./dev.ts";
+
+Deno.test("watch() doesn't start with an aborted signal", () => {
+  const controller = new AbortController();
+  controller.abort();
+  // Watching a missing folder would throw
+  const watcher = watch(
+    "./missing-folder",
+    { signal: controller.signal },
+    () => {
+      throw new Error("unexpected change");
+    },
+  );
+  watcher.close();
+});
+
+Deno.test("reloadScript() swaps stylesheets or reloads the page", () => {
+  assertEquals(reloadScript(["app.js"]), "location.reload();");
+  assertEquals(reloadScript(["app.css", "index.html"]), "location.reload();");
+  assertEquals(reloadScript(["app.css"]).includes('["app.css"]'), true);
+});
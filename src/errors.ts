@@ -0,0 +1,184 @@
+// Deno WebUI
+// Error classes, carrying the native WebUI last error when there is one
+
+import type { WebUILib } from "./types.ts";
+
+/**
+ * Options of `WebUIError`: standard error options, plus an optional `code`
+ * and the native WebUI last error.
+ */
+export interface WebUIErrorOptions extends ErrorOptions {
+  /** Error code, forwarded to the UI with the error. */
+  code?: string | number;
+  /** Native error number, from `webui_get_last_error_number()`. */
+  nativeCode?: number;
+  /** Native error message, from `webui_get_last_error_message()`. */
+  nativeMessage?: string;
+}
+
+/**
+ * Error thrown by WebUI. When thrown from a bound or exposed callback, its
+ * `name`, `message` and `code` are sent to the UI.
+ */
+export class WebUIError extends Error {
+  /** The error name, `"WebUIError"`. */
+  override name = "WebUIError";
+  /** Optional error code, forwarded to the UI with the error. */
+  code?: string | number;
+  /** Native error number reported by the WebUI library, if any. */
+  nativeCode?: number;
+  /** Native error message reported by the WebUI library, if any. */
+  nativeMessage?: string;
+
+  /**
+   * Create a WebUI error.
+   * @param message - The error message.
+   * @param options - Standard error options, plus an optional `code` and
+   * the native last error.
+   */
+  constructor(message?: string, options?: WebUIErrorOptions) {
+    super(message, options);
+    this.code = options?.code;
+    this.nativeCode = options?.nativeCode;
+    this.nativeMessage = options?.nativeMessage;
+  }
+}
+
+/**
+ * Error thrown when `script()` or `scriptClient()` gets no response from the
+ * UI within the requested timeout.
+ */
+export class ScriptTimeoutError extends WebUIError {
+  /** The error name, `"ScriptTimeoutError"`. */
+  override name = "ScriptTimeoutError";
+}
+
+/**
+ * Error thrown by `show()` when the browser can't be started.
+ */
+export class BrowserLaunchError extends WebUIError {
+  /** The error name, `"BrowserLaunchError"`. */
+  override name = "BrowserLaunchError";
+}
+
+/**
+ * Error thrown by `show()` when the requested browser isn't installed.
+ */
+export class BrowserNotFoundError extends BrowserLaunchError {
+  /** The error name, `"BrowserNotFoundError"`. */
+  override name = "BrowserNotFoundError";
+}
+
+/**
+ * Error thrown by `show()` when the browser started but didn't connect
+ * within the requested timeout.
+ */
+export class ConnectionTimeoutError extends WebUIError {
+  /** The error name, `"ConnectionTimeoutError"`. */
+  override name = "ConnectionTimeoutError";
+}
+
+/**
+ * Error thrown when the WebUI web server can't listen on its port.
+ */
+export class PortInUseError extends WebUIError {
+  /** The error name, `"PortInUseError"`. */
+  override name = "PortInUseError";
+}
+
+/**
+ * Error thrown when the TLS certificate or private key is rejected.
+ */
+export class TlsError extends WebUIError {
+  /** The error name, `"TlsError"`. */
+  override name = "TlsError";
+}
+
+/**
+ * Error thrown when a downloaded WebUI library doesn't match its pinned
+ * SHA-256 digest.
+ */
+export class IntegrityError extends WebUIError {
+  /** The error name, `"IntegrityError"`. */
+  override name = "IntegrityError";
+}
+
+type WebUIErrorClass<T extends WebUIError> = new (
+  message?: string,
+  options?: WebUIErrorOptions,
+) => T;
+
+/**
+ * Create an error carrying the native last error. Its message is appended
+ * to `message`.
+ * @param lib - The WebUI library.
+ * @param ErrorClass - The error class.
+ * @param message - The error message.
+ * @returns The error.
+ */
+export function nativeError<T extends WebUIError>(
+  lib: WebUILib,
+  ErrorClass: WebUIErrorClass<T>,
+  message: string,
+): T {
+  return withLastError(ErrorClass, message, lastError(lib));
+}
+
+/**
+ * Create the error of a failed `show()`, choosing its class from the native
+ * last error and the installed browsers.
+ * @param lib - The WebUI library.
+ * @param browser - The requested browser.
+ * @returns The error.
+ */
+export function launchError(lib: WebUILib, browser: number): WebUIError {
+  const last = lastError(lib);
+  let ErrorClass: WebUIErrorClass<WebUIError> = BrowserLaunchError;
+  if (/\bport\b/i.test(last.nativeMessage ?? "")) {
+    ErrorClass = PortInUseError;
+  } else if (!lib.symbols.webui_browser_exist(BigInt(browser))) {
+    ErrorClass = BrowserNotFoundError;
+  }
+  return withLastError(ErrorClass, "unable to start the browser", last);
+}
+
+/**
+ * Create the error of a failed `startServer()`, a `PortInUseError` when the
+ * native last error is about the port.
+ * @param lib - The WebUI library.
+ * @returns The error.
+ */
+export function serverError(lib: WebUILib): WebUIError {
+  const last = lastError(lib);
+  const ErrorClass = /\bport\b/i.test(last.nativeMessage ?? "")
+    ? PortInUseError
+    : WebUIError;
+  return withLastError(ErrorClass, "unable to start the server", last);
+}
+
+/**
+ * Read the native last error, if there is one.
+ */
+function lastError(lib: WebUILib): WebUIErrorOptions {
+  const nativeCode = Number(lib.symbols.webui_get_last_error_number());
+  const pointer = lib.symbols.webui_get_last_error_message();
+  const nativeMessage = pointer === null
+    ? ""
+    : Deno.UnsafePointerView.getCString(pointer);
+  if (nativeCode === 0 && nativeMessage === "") return {};
+  return { nativeCode, nativeMessage };
+}
+
+/**
+ * Create an error, appending the native message to `message`.
+ */
+function withLastError<T extends WebUIError>(
+  ErrorClass: WebUIErrorClass<T>,
+  message: string,
+  last: WebUIErrorOptions,
+): T {
+  return new ErrorClass(
+    last.nativeMessage ? `${message}: ${last.nativeMessage}` : message,
+    last,
+  );
+}
@@ -0,0 +1,80 @@
+// Deno WebUI
+// Typed event listeners
+
+/**
+ * A listener registered with `on()`.
+ * @template T The event payload type.
+ */
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter, keyed by event name.
+ * @template T Map of event names to payload types.
+ */
+export class Emitter<T> {
+  #listeners: Map<keyof T, Set<Listener<never>>> = new Map();
+
+  /**
+   * Add a listener.
+   * @param type - The event name.
+   * @param listener - Called with the event payload.
+   */
+  on<K extends keyof T>(type: K, listener: Listener<T[K]>): void {
+    let listeners = this.#listeners.get(type);
+    if (listeners === undefined) {
+      listeners = new Set();
+      this.#listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  /**
+   * Remove a listener added with `on()`.
+   * @param type - The event name.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof T>(type: K, listener: Listener<T[K]>): void {
+    this.#listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Wait for the next event.
+   * @param type - The event name.
+   * @param signal - Optional signal to stop waiting.
+   * @returns Promise that resolves with the event payload.
+   */
+  once<K extends keyof T>(type: K, signal?: AbortSignal): Promise<T[K]> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise((resolve, reject) => {
+      const listener = (payload: T[K]) => {
+        this.off(type, listener);
+        signal?.removeEventListener("abort", onAbort);
+        resolve(payload);
+      };
+      const onAbort = () => {
+        this.off(type, listener);
+        reject(signal!.reason);
+      };
+      this.on(type, listener);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Call every listener of an event. A throwing listener is logged and
+   * doesn't stop the others.
+   * @param type - The event name.
+   * @param payload - The event payload.
+   */
+  emit<K extends keyof T>(type: K, payload: T[K]): void {
+    for (const listener of [...(this.#listeners.get(type) ?? [])]) {
+      try {
+        (listener as Listener<T[K]>)(payload);
+      } catch (error) {
+        console.error(error);
+      }
+    }
+  }
+}
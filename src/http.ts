@@ -0,0 +1,84 @@
+// Deno WebUI
+// Fetch `Request`/`Response` adapters for the window file handler
+
+// Reason phrases of the status codes a handler is likely to return
+const reasonPhrases: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  206: "Partial Content",
+  301: "Moved Permanently",
+  302: "Found",
+  303: "See Other",
+  304: "Not Modified",
+  307: "Temporary Redirect",
+  308: "Permanent Redirect",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  416: "Range Not Satisfiable",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+};
+
+/**
+ * Build the `Request` passed to a request handler. WebUI only forwards the
+ * requested path to the file handler, so it is always a `GET` without
+ * headers or body.
+ * @param url - The requested URL.
+ * @returns The request.
+ */
+export function toRequest(url: URL): Request {
+  return new Request(url);
+}
+
+/**
+ * Insert scripts at the start of an HTML page `<head>`, or of the page when
+ * it has none, so they run before the page scripts.
+ * @param html - The page.
+ * @param scripts - The `<script>` elements to insert.
+ * @returns The page with the scripts.
+ */
+export function injectHead(html: string, scripts: string): string {
+  const head = /<head[^>]*>/i.exec(html);
+  const at = head ? head.index + head[0].length : 0;
+  return html.slice(0, at) + scripts + html.slice(at);
+}
+
+/**
+ * Serialize a `Response` into the raw HTTP response expected by
+ * `webui_interface_set_response_file_handler`. The body is fully read, and
+ * `Content-Length` is set to its size, unless the response has no body and
+ * sets it. The reason phrase defaults to the standard one of the status.
+ * @param response - The response to serialize.
+ * @returns The HTTP status line, headers and body.
+ */
+export async function serializeResponse(
+  response: Response,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const body = new Uint8Array(await response.arrayBuffer());
+  const headers = new Headers(response.headers);
+  headers.delete("Transfer-Encoding");
+  // A bodiless response (e.g. to `HEAD`) keeps the length of its entity
+  if (response.body !== null || !headers.has("Content-Length")) {
+    headers.set("Content-Length", String(body.byteLength));
+  }
+
+  const reason = response.statusText ||
+    (reasonPhrases[response.status] ?? "Unknown");
+  let head = `HTTP/1.1 ${response.status} ${reason}\r\n`;
+  // Iterating `Headers` yields each `Set-Cookie` separately
+  for (const [name, value] of headers) {
+    head += `${name}: ${value}\r\n`;
+  }
+  head += "\r\n";
+
+  const headBytes = new TextEncoder().encode(head);
+  const bytes = new Uint8Array(headBytes.byteLength + body.byteLength);
+  bytes.set(headBytes);
+  bytes.set(body, headBytes.byteLength);
+  return bytes;
+}
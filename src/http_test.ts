@@ -0,0 +1,44 @@
+import { assertEquals } from "@std/assert";
+import { injectHead, serializeResponse } from "./http.ts";
+
+/** The head of a serialized response. */
+async function head(response: Response): Promise<string> {
+  const text = new TextDecoder().decode(await serializeResponse(response));
+  return text.slice(0, text.indexOf("\r\n\r\n"));
+}
+
+Deno.test("serializeResponse() writes a reason phrase", async () => {
+  assertEquals(
+    (await head(new Response("ok"))).split("\r\n")[0],
+    "HTTP/1.1 200 OK",
+  );
+  assertEquals(
+    (await head(new Response(null, { status: 404 }))).split("\r\n")[0],
+    "HTTP/1.1 404 Not Found",
+  );
+  assertEquals(
+    (await head(new Response(null, { status: 418, statusText: "Teapot" })))
+      .split("\r\n")[0],
+    "HTTP/1.1 418 Teapot",
+  );
+});
+
+Deno.test("serializeResponse() sets Content-Length", async () => {
+  const lines = (await head(new Response("hello"))).split("\r\n");
+  assertEquals(lines.includes("content-length: 5"), true);
+});
+
+Deno.test("injectHead() inserts after <head>", () => {
+  assertEquals(
+    injectHead("<html><head><title>x</title></head></html>", "<s>"),
+    "<html><head><s><title>x</title></head></html>",
+  );
+  assertEquals(injectHead("<p>x</p>", "<s>"), "<s><p>x</p>");
+});
+
+Deno.test("serializeResponse() keeps the Content-Length of HEAD responses", async () => {
+  const lines = (await head(
+    new Response(null, { headers: { "Content-Length": "10" } }),
+  )).split("\r\n");
+  assertEquals(lines.includes("content-length: 10"), true);
+});
@@ -1,8 +1,6 @@
 // Deno WebUI
 // FFI (Foreign Function Interface) for webui.ts
 
-import { libPath } from "../deps.ts";
-
 const symbols = {
   webui_wait: {
     // void webui_wait(void)
@@ -39,6 +37,11 @@ const symbols = {
     // https://github.com/webui-dev/deno-webui/issues/91
     nonblocking: Deno.build.os !== "darwin",
   },
+  webui_bind: {
+    // size_t webui_bind(size_t window, const char* element, void (*func)(webui_event_t* e))
+    parameters: ["usize", "buffer", "function"],
+    result: "usize",
+  },
   webui_interface_bind: {
     // size_t webui_interface_bind(size_t window, const char* element, void (*func)(size_t, size_t, char*, size_t, size_t));
     parameters: ["usize", "buffer", "function"],
@@ -48,6 +51,7 @@ const symbols = {
     // bool webui_script(size_t window, const char* script, size_t timeout, char* buffer, size_t buffer_length)
     parameters: ["usize", "buffer", "usize", "buffer", "usize"],
     result: "bool",
+    nonblocking: true,
   },
   webui_run: {
     // void webui_run(size_t window, const char* script)
@@ -331,6 +335,27 @@ const symbols = {
     //  size_t window, size_t event_number, const char* script, size_t timeout, char* buffer, size_t buffer_length)
     parameters: ["usize", "usize", "buffer", "usize", "buffer", "usize"],
     result: "bool",
+    nonblocking: true,
+  },
+  webui_run_client: {
+    // void webui_run_client(webui_event_t* e, const char* script)
+    parameters: ["pointer", "buffer"],
+    result: "void",
+  },
+  webui_navigate_client: {
+    // void webui_navigate_client(webui_event_t* e, const char* url)
+    parameters: ["pointer", "buffer"],
+    result: "void",
+  },
+  webui_close_client: {
+    // void webui_close_client(webui_event_t* e)
+    parameters: ["pointer"],
+    result: "void",
+  },
+  webui_show_client: {
+    // bool webui_show_client(webui_event_t* e, const char* content)
+    parameters: ["pointer", "buffer"],
+    result: "bool",
   },
   webui_send_raw_client: {
     // void webui_send_raw_client(webui_event_t* e, const char* function, const void* raw, size_t size)
@@ -480,9 +505,14 @@ const symbols = {
   },
 } as const;
 
-export function loadLib(): Deno.DynamicLibrary<typeof symbols> {
+/**
+ * Open the WebUI library.
+ * @param path - Library path, see `resolveLibPath()` in `deps.ts`.
+ * @returns The loaded library.
+ */
+export function loadLib(path: string): Deno.DynamicLibrary<typeof symbols> {
   return Deno.dlopen(
-    libPath,
+    path,
     symbols,
   );
 }
@@ -0,0 +1,181 @@
+// Deno WebUI
+// Middleware for the window request handlers, see `WebUI.prototype.use`
+
+import type { Middleware, MiddlewareContext } from "./types.ts";
+
+/**
+ * Run a middleware chain, ending with `last`.
+ * @param middlewares - The middleware, in call order.
+ * @param ctx - The request context.
+ * @param last - Called by the last middleware `next()`.
+ * @returns The response, or `undefined` when nothing handled the request.
+ */
+export function compose(
+  middlewares: Middleware[],
+  ctx: MiddlewareContext,
+  last: () => Promise<Response | undefined>,
+): Promise<Response | undefined> {
+  let called = -1;
+  const dispatch = async (i: number): Promise<Response | undefined> => {
+    if (i <= called) throw new Error("next() called multiple times");
+    called = i;
+    if (i === middlewares.length) return await last();
+    return await middlewares[i](ctx, () => dispatch(i + 1));
+  };
+  return dispatch(0);
+}
+
+/**
+ * Log each request with its status and duration.
+ * @param log - Called with the log line. Defaults to `console.log`.
+ * @returns The middleware.
+ * @example
+ * ```ts
+ * myWindow.use(logger());
+ * // GET /index.html 200 3ms
+ * ```
+ */
+export function logger(
+  log: (line: string) => void = console.log,
+): Middleware {
+  return async (ctx, next) => {
+    const start = performance.now();
+    const response = await next();
+    const duration = Math.round(performance.now() - start);
+    log(
+      `${ctx.request.method} ${ctx.url.pathname} ` +
+        `${response?.status ?? "-"} ${duration}ms`,
+    );
+    return response;
+  };
+}
+
+/**
+ * Gzip text responses (HTML, CSS, JavaScript, JSON, SVG, XML). Skips
+ * responses that are small, partial or already encoded.
+ * @param options.threshold - Minimum body size in bytes. Defaults to 1024.
+ * @returns The middleware.
+ * @example
+ * ```ts
+ * myWindow.use(compress());
+ * ```
+ */
+export function compress(options: { threshold?: number } = {}): Middleware {
+  const threshold = options.threshold ?? 1024;
+  return async (ctx, next) => {
+    const response = await next();
+    // WebUI doesn't forward the browser headers, every browser accepts gzip
+    const accepts = ctx.request.headers.get("Accept-Encoding");
+    if (
+      response?.body == null || response.status !== 200 ||
+      response.headers.has("Content-Encoding") ||
+      (accepts !== null && !/\bgzip\b/.test(accepts)) ||
+      !isCompressible(response.headers.get("Content-Type") ?? "")
+    ) {
+      return response;
+    }
+    const body = new Uint8Array(await response.arrayBuffer());
+    const headers = new Headers(response.headers);
+    headers.append("Vary", "Accept-Encoding");
+    if (body.byteLength < threshold) {
+      return new Response(body, { status: response.status, headers });
+    }
+    headers.set("Content-Encoding", "gzip");
+    headers.delete("Content-Length");
+    const etag = headers.get("ETag");
+    if (etag !== null && !etag.startsWith("W/")) {
+      headers.set("ETag", `W/${etag}`);
+    }
+    const compressed = new Blob([body]).stream().pipeThrough(
+      new CompressionStream("gzip"),
+    );
+    return new Response(compressed, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Add security headers to every response. Existing headers are kept.
+ * @param options.contentSecurityPolicy - `Content-Security-Policy` value.
+ * Not set by default, the policy depends on the UI.
+ * @param options.headers - Headers replacing or adding to the defaults:
+ * `X-Content-Type-Options: nosniff`, `X-Frame-Options: DENY` and
+ * `Referrer-Policy: no-referrer`.
+ * @returns The middleware.
+ * @example
+ * ```ts
+ * myWindow.use(securityHeaders({
+ *   contentSecurityPolicy: "default-src 'self'; connect-src 'self' ws:",
+ * }));
+ * ```
+ */
+export function securityHeaders(
+  options: {
+    contentSecurityPolicy?: string;
+    headers?: Record<string, string>;
+  } = {},
+): Middleware {
+  const defaults: Record<string, string> = {
+    "X-Content-Type-Options": "nosniff",
+    "X-Frame-Options": "DENY",
+    "Referrer-Policy": "no-referrer",
+    ...options.headers,
+  };
+  if (options.contentSecurityPolicy !== undefined) {
+    defaults["Content-Security-Policy"] = options.contentSecurityPolicy;
+  }
+  return async (_ctx, next) => {
+    const response = await next();
+    if (response === undefined) return undefined;
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(defaults)) {
+      if (!headers.has(name)) headers.set(name, value);
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Answer the requests whose path matches a `URLPattern` pathname, e.g.
+ * `/api/users/:id`. Matched groups are set on `ctx.params`.
+ * @param pattern - The pathname pattern.
+ * @param handler - Called for matching requests. Returning `undefined`
+ * passes the request on.
+ * @returns The middleware.
+ * @example
+ * ```ts
+ * myWindow.use(route("/api/users/:id", (_req, ctx) => {
+ *   return Response.json({ id: ctx.params.id });
+ * }));
+ * ```
+ */
+export function route(
+  pattern: string,
+  handler: (
+    request: Request,
+    ctx: MiddlewareContext,
+  ) => Response | undefined | Promise<Response | undefined>,
+): Middleware {
+  const urlPattern = new URLPattern({ pathname: pattern });
+  return async (ctx, next) => {
+    const match = urlPattern.exec({ pathname: ctx.url.pathname });
+    if (match === null) return await next();
+    ctx.params = { ...ctx.params, ...match.pathname.groups };
+    return await handler(ctx.request, ctx) ?? await next();
+  };
+}
+
+/**
+ * Whether a content type is worth compressing.
+ */
+function isCompressible(contentType: string): boolean {
+  return /^text\/|\/(javascript|json|xml|svg\+xml|wasm)\b|\+json\b|\+xml\b/
+    .test(contentType);
+}
@@ -0,0 +1,139 @@
+// Deno WebUI
+// Reverse proxy to a local dev server, see `WebUI.prototype.proxyTo`
+
+import { injectHead } from "./http.ts";
+import type { ContextFreeHandler } from "./types.ts";
+
+/**
+ * Options of `WebUI.prototype.proxyTo`.
+ */
+export interface ProxyOptions {
+  /**
+   * Send the page WebSockets (e.g. Vite HMR) straight to the dev server,
+   * which must accept them from the window origin. They aren't forwarded
+   * through WebUI. Defaults to `true`.
+   */
+  webSockets?: boolean;
+}
+
+// Headers describing the upstream connection or encoding, not the content
+const skippedHeaders = [
+  "connection",
+  "content-encoding",
+  "content-length",
+  "keep-alive",
+  "transfer-encoding",
+];
+
+/**
+ * Create a request handler forwarding requests to another HTTP server.
+ * Request paths are resolved against the server URL, so `/a.js` goes to
+ * `http://localhost:5173/app/a.js` with a `/app/` base path. HTML pages get
+ * `webui.js` injected, and optionally a shim sending their WebSockets to the
+ * server.
+ * @param origin - The server URL, e.g. `http://localhost:5173`, with an
+ * optional base path.
+ * @param options - The proxy options.
+ * @returns The request handler. `/webui.js` is left to WebUI.
+ */
+export function proxy(
+  origin: string | URL,
+  options: ProxyOptions,
+): ContextFreeHandler {
+  const upstream = new URL(origin);
+  // Resolve paths below the base path, `/app` meaning `/app/`
+  if (!upstream.pathname.endsWith("/")) upstream.pathname += "/";
+  upstream.search = "";
+  upstream.hash = "";
+  const webSockets = options.webSockets ?? true;
+
+  return async (request) => {
+    const url = new URL(request.url);
+    if (url.pathname === "/webui.js") return undefined;
+
+    // Relative, so `//host/path` can't leave the server either
+    const target = new URL(`.${url.pathname}${url.search}`, upstream);
+    let response: Response;
+    try {
+      response = await fetch(target, {
+        method: request.method,
+        headers: request.headers,
+        redirect: "manual",
+      });
+    } catch (error) {
+      return new Response(`Bad Gateway: ${target}\n${error}`, {
+        status: 502,
+      });
+    }
+
+    const headers = new Headers(response.headers);
+    for (const name of skippedHeaders) headers.delete(name);
+    // Keep redirects to the server on the window origin
+    const location = headers.get("Location");
+    if (location !== null) {
+      const redirect = new URL(location, target);
+      if (
+        redirect.origin === upstream.origin &&
+        redirect.pathname.startsWith(upstream.pathname)
+      ) {
+        headers.set(
+          "Location",
+          redirect.pathname.slice(upstream.pathname.length - 1) +
+            redirect.search,
+        );
+      }
+    }
+
+    let body: BodyInit | null = response.body;
+    if (headers.get("Content-Type")?.startsWith("text/html")) {
+      body = injectScripts(await response.text(), upstream, webSockets);
+      headers.delete("ETag");
+    }
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Add `webui.js`, and the WebSocket shim, at the start of an HTML page so
+ * they run before the page scripts.
+ */
+function injectScripts(
+  html: string,
+  upstream: URL,
+  webSockets: boolean,
+): string {
+  let scripts = "";
+  if (webSockets) {
+    scripts += `<script>${webSocketShim(upstream)}</script>`;
+  }
+  if (!/<script[^>]+src=["']?\/?webui\.js/i.test(html)) {
+    scripts += `<script src="/webui.js"></script>`;
+  }
+  return injectHead(html, scripts);
+}
+
+/**
+ * Browser script rewriting WebSockets to the window origin so they reach
+ * the dev server. WebUI only serves its own WebSocket, under `/_webui`.
+ */
+function webSocketShim(upstream: URL): string {
+  const host = JSON.stringify(upstream.host);
+  const secure = upstream.protocol === "https:";
+  return `(() => {
+const NativeWebSocket = globalThis.WebSocket;
+globalThis.WebSocket = class extends NativeWebSocket {
+  constructor(url, protocols) {
+    const target = new URL(url, location.href);
+    if (target.host === location.host && !target.pathname.startsWith("/_webui")) {
+      target.host = ${host};
+      target.protocol = ${JSON.stringify(secure ? "wss:" : "ws:")};
+    }
+    super(target, protocols);
+  }
+};
+})();`;
+}
@@ -0,0 +1,32 @@
+import { assertEquals } from "@std/assert";
+import { proxy } from "./proxy.ts";
+
+Deno.test("proxy() keeps the base path of the server", async () => {
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen() {} },
+    (request) => {
+      const url = new URL(request.url);
+      if (url.pathname === "/app/old") {
+        return Response.redirect(new URL("/app/new?x=1", url), 302);
+      }
+      return new Response(url.pathname + url.search);
+    },
+  );
+  try {
+    const origin = `http://127.0.0.1:${server.addr.port}/app`;
+    const handler = proxy(origin, {});
+
+    const response = (await handler(
+      new Request("http://localhost/a.js?v=2"),
+    ))!;
+    assertEquals(await response.text(), "/app/a.js?v=2");
+
+    const redirect = (await handler(
+      new Request("http://localhost/old"),
+    ))!;
+    await redirect.body?.cancel();
+    assertEquals(redirect.headers.get("Location"), "/new?x=1");
+  } finally {
+    await server.shutdown();
+  }
+});
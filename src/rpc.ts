@@ -0,0 +1,126 @@
+// Deno WebUI
+// JSON-RPC encoding shared by `WebUI.prototype.expose` and the browser bridge
+
+/**
+ * Key used to mark values that JSON can't represent natively
+ * (`Date`, `bigint`, `undefined`).
+ */
+export const TAG = "$webui";
+
+/**
+ * Object keys made of `$` signs followed by `webui`. The encoding prefixes
+ * them with one more `$`, so user objects never look tagged.
+ */
+export const ESCAPED_KEY = /^\$+webui$/;
+
+/**
+ * Prefix of the id an exposed function is bound under. `webui.js` creates a
+ * raw global for each bound id, so exposed functions are bound under an
+ * internal id and the bridge alone creates their global.
+ */
+export const EXPOSE_PREFIX = "__webuiDenoExpose:";
+
+/**
+ * Prefix of a bind response carrying a serialized error instead of a value.
+ * The browser bridge rejects the pending call when it sees this prefix.
+ */
+export const ERROR_PREFIX = "\x1bwebui:error:";
+
+/**
+ * Serialized form of an error thrown by a backend handler.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string | number;
+}
+
+/**
+ * Encode a value to JSON, tagging `Date`, `bigint` and `undefined`, and
+ * escaping object keys that collide with the tag.
+ * @param value - The value to encode.
+ * @returns The JSON text.
+ */
+export function encode(value: unknown): string {
+  if (value === undefined) return JSON.stringify({ [TAG]: "undefined" });
+  return JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key: string, v: unknown) {
+      // `this[key]` is the raw value, before `Date.prototype.toJSON` runs
+      const raw = this[key];
+      if (raw instanceof Date) {
+        return { [TAG]: "date", value: raw.toISOString() };
+      }
+      if (typeof raw === "bigint") {
+        return { [TAG]: "bigint", value: raw.toString() };
+      }
+      if (raw === undefined) {
+        return { [TAG]: "undefined" };
+      }
+      if (
+        v !== null && typeof v === "object" && !Array.isArray(v) &&
+        Object.keys(v).some((k) => ESCAPED_KEY.test(k))
+      ) {
+        return Object.fromEntries(
+          Object.entries(v).map(([k, item]) => [
+            ESCAPED_KEY.test(k) ? "$" + k : k,
+            item,
+          ]),
+        );
+      }
+      return v;
+    },
+  );
+}
+
+/**
+ * Decode JSON produced by `encode()`, restoring tagged values.
+ * @param text - The JSON text.
+ * @returns The decoded value.
+ */
+export function decode(text: string): unknown {
+  return revive(JSON.parse(text));
+}
+
+/**
+ * Restore the tagged values and escaped keys of parsed JSON. Unlike a
+ * `JSON.parse` reviver, `undefined` array elements stay in place.
+ */
+function revive(v: unknown): unknown {
+  if (Array.isArray(v)) return v.map(revive);
+  if (v === null || typeof v !== "object") return v;
+  if (TAG in v) {
+    const tagged = v as { [TAG]: string; value?: string };
+    switch (tagged[TAG]) {
+      case "date":
+        return new Date(tagged.value!);
+      case "bigint":
+        return BigInt(tagged.value!);
+      case "undefined":
+        return undefined;
+    }
+  }
+  // `fromEntries` keeps a `__proto__` key as an own property
+  return Object.fromEntries(
+    Object.entries(v).map(([k, item]) => [
+      ESCAPED_KEY.test(k) ? k.slice(1) : k,
+      revive(item),
+    ]),
+  );
+}
+
+/**
+ * Serialize a thrown value into an error response.
+ * @param error - The thrown value.
+ * @returns The response string, starting with `ERROR_PREFIX`.
+ */
+export function encodeError(error: unknown): string {
+  const serialized: SerializedError = error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: "Error", message: String(error) };
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === "string" || typeof code === "number") {
+    serialized.code = code;
+  }
+  return ERROR_PREFIX + JSON.stringify(serialized);
+}
@@ -0,0 +1,41 @@
+import { assertEquals } from "@std/assert";
+import { decode, encode } from "./rpc.ts";
+
+Deno.test("encode() and decode() restore tagged values", () => {
+  const value = {
+    date: new Date("2025-01-02T03:04:05.000Z"),
+    big: 12345678901234567890n,
+    missing: undefined,
+    nested: [1, "two", null, { ok: true }],
+  };
+  assertEquals(decode(encode(value)), value);
+  assertEquals(decode(encode(undefined)), undefined);
+});
+
+Deno.test("encode() and decode() escape keys colliding with the tag", () => {
+  const value = {
+    $webui: "date",
+    value: "not a date",
+    $$webui: { $webui: "bigint", value: "1" },
+  };
+  assertEquals(decode(encode(value)), value);
+  assertEquals(decode(encode([{ $webui: "undefined" }])), [
+    { $webui: "undefined" },
+  ]);
+});
+
+Deno.test("encode() and decode() keep undefined array elements", () => {
+  const decoded = decode(encode([1, undefined, 3])) as unknown[];
+  assertEquals(decoded.length, 3);
+  assertEquals(1 in decoded, true);
+  assertEquals(decoded[1], undefined);
+});
+
+Deno.test("decode() keeps __proto__ keys as own properties", () => {
+  const decoded = decode('{"__proto__": {"polluted": true}}') as Record<
+    string,
+    unknown
+  >;
+  assertEquals(Object.getPrototypeOf(decoded), Object.prototype);
+  assertEquals(Object.hasOwn(decoded, "__proto__"), true);
+});
@@ -0,0 +1,329 @@
+// Deno WebUI
+// Static files request handlers, see `WebUI.serveStatic` and
+// `WebUI.prototype.setVirtualFileSystem`
+
+import { extname, join, resolve } from "@std/path";
+import { BlobReader, Uint8ArrayWriter, ZipReader } from "@zip-js/zip-js";
+import type { ContextFreeHandler } from "./types.ts";
+
+/**
+ * Options of `WebUI.serveStatic` and `WebUI.prototype.setVirtualFileSystem`.
+ */
+export interface ServeStaticOptions {
+  /** File served for directory requests. Defaults to `index.html`. */
+  index?: string;
+  /**
+   * Serve the index file for missing paths without an extension, so
+   * client-side routes of a single-page application resolve. Defaults to
+   * `false`.
+   */
+  spa?: boolean;
+  /** `Cache-Control` header of served files. Defaults to `no-cache`. */
+  cacheControl?: string;
+}
+
+/**
+ * A file found by a `FileSource`.
+ */
+interface StaticFile {
+  /** Path used for MIME detection. */
+  path: string;
+  size: number;
+  etag: string;
+  mtime: Date | null;
+  read(start: number, length: number): Promise<Uint8Array<ArrayBuffer>>;
+}
+
+/**
+ * Find the file at a path, given as its segments. A directory resolves to
+ * its index file.
+ */
+type FileSource = (
+  segments: string[],
+  index: string,
+) => Promise<StaticFile | undefined>;
+
+/**
+ * Create a request handler serving the files of a directory.
+ * @param dir - The directory to serve.
+ * @param options - The handler options.
+ * @param mimeType - Returns the MIME type of a file name.
+ * @returns The request handler. It returns `undefined` for missing files,
+ * so WebUI can still serve `webui.js`.
+ */
+export function serveStatic(
+  dir: string,
+  options: ServeStaticOptions,
+  mimeType: (file: string) => string,
+): ContextFreeHandler {
+  return serveFiles(diskSource(resolve(dir)), options, mimeType);
+}
+
+/**
+ * Create a request handler serving in-memory files.
+ * @param files - File contents by path, e.g. `index.html` or `/assets/app.js`.
+ * @param options - The handler options.
+ * @param mimeType - Returns the MIME type of a file name.
+ * @returns The request handler. It returns `undefined` for missing files.
+ */
+export function serveMemory(
+  files: Record<string, Uint8Array | string>,
+  options: ServeStaticOptions,
+  mimeType: (file: string) => string,
+): ContextFreeHandler {
+  return serveFiles(memorySource(files), options, mimeType);
+}
+
+/**
+ * Read the files of a zip archive.
+ * @param data - The zip archive.
+ * @returns File contents by path inside the archive.
+ */
+export async function readZip(
+  data: Uint8Array<ArrayBuffer> | Blob,
+): Promise<Record<string, Uint8Array>> {
+  const zipReader = new ZipReader(new BlobReader(new Blob([data])));
+  const files: Record<string, Uint8Array> = {};
+  try {
+    for (const entry of await zipReader.getEntries()) {
+      if (entry.directory) continue;
+      // Normalize zip entry filename (might contain different slashes)
+      files[entry.filename.replace(/\\/g, "/")] = await entry.getData!(
+        new Uint8ArrayWriter(),
+      );
+    }
+  } finally {
+    await zipReader.close();
+  }
+  return files;
+}
+
+/**
+ * Create a request handler answering from a file source, with MIME
+ * detection and SPA fallback. `If-None-Match` and `Range` are answered when
+ * the request carries them, which WebUI requests never do.
+ */
+function serveFiles(
+  source: FileSource,
+  options: ServeStaticOptions,
+  mimeType: (file: string) => string,
+): ContextFreeHandler {
+  const index = options.index ?? "index.html";
+  const cacheControl = options.cacheControl ?? "no-cache";
+
+  return async (request) => {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return undefined;
+    }
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(request.url).pathname);
+    } catch {
+      return new Response("Bad Request", { status: 400 });
+    }
+    if (pathname.includes("\0")) {
+      return new Response("Bad Request", { status: 400 });
+    }
+
+    let file = await source(pathSegments(pathname), index);
+    if (file === undefined && options.spa && extname(pathname) === "") {
+      file = await source([index], index);
+    }
+    if (file === undefined) return undefined;
+
+    const headers = new Headers({
+      "Content-Type": mimeType(file.path),
+      "Cache-Control": cacheControl,
+      "Accept-Ranges": "bytes",
+      "ETag": file.etag,
+    });
+    if (file.mtime) {
+      headers.set("Last-Modified", file.mtime.toUTCString());
+    }
+
+    const ifNoneMatch = request.headers.get("If-None-Match");
+    if (ifNoneMatch !== null && matchesEtag(ifNoneMatch, file.etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    const size = file.size;
+    let start = 0;
+    let end = size - 1;
+    let status = 200;
+    const range = request.headers.get("Range");
+    if (range !== null) {
+      const parsed = parseRange(range, size);
+      if (parsed === undefined) {
+        headers.set("Content-Range", `bytes */${size}`);
+        return new Response(null, { status: 416, headers });
+      }
+      [start, end] = parsed;
+      status = 206;
+      headers.set("Content-Range", `bytes ${start}-${end}/${size}`);
+    }
+
+    if (request.method === "HEAD") {
+      headers.set("Content-Length", String(end - start + 1));
+      return new Response(null, { status, headers });
+    }
+    return new Response(await file.read(start, end - start + 1), {
+      status,
+      headers,
+    });
+  };
+}
+
+/**
+ * Split a URL path into segments, resolving `.` and `..` without going
+ * above the root, so `/../secret` or `/..%2fsecret` stay inside it.
+ * @param pathname - The decoded URL path.
+ * @returns The path segments.
+ */
+export function pathSegments(pathname: string): string[] {
+  const segments: string[] = [];
+  for (const segment of pathname.split(/[\\/]/)) {
+    if (segment === "..") {
+      segments.pop();
+    } else if (segment !== "" && segment !== ".") {
+      segments.push(segment);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Files of a directory on disk.
+ */
+function diskSource(root: string): FileSource {
+  return async (segments, index) => {
+    let path = join(root, ...segments);
+    try {
+      let info = await Deno.stat(path);
+      if (info.isDirectory) {
+        path = join(path, index);
+        info = await Deno.stat(path);
+      }
+      if (!info.isFile) return undefined;
+      const mtime = info.mtime?.getTime() ?? 0;
+      return {
+        path,
+        size: info.size,
+        etag: `W/"${info.size.toString(16)}-${mtime.toString(16)}"`,
+        mtime: info.mtime,
+        read: (start, length) => readRange(path, start, length),
+      };
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return undefined;
+      throw error;
+    }
+  };
+}
+
+/**
+ * In-memory files. ETags are content hashes, computed on first request.
+ */
+function memorySource(files: Record<string, Uint8Array | string>): FileSource {
+  const contents = new Map<string, Uint8Array<ArrayBuffer>>();
+  for (const [path, content] of Object.entries(files)) {
+    contents.set(
+      pathSegments(path).join("/"),
+      typeof content === "string"
+        ? new TextEncoder().encode(content)
+        : new Uint8Array(content),
+    );
+  }
+  const etags = new Map<string, string>();
+
+  return async (segments, index) => {
+    let path = segments.join("/");
+    if (!contents.has(path)) {
+      path = [...segments, index].join("/");
+    }
+    const content = contents.get(path);
+    if (content === undefined) return undefined;
+    let etag = etags.get(path);
+    if (etag === undefined) {
+      const digest = new Uint8Array(
+        await crypto.subtle.digest("SHA-256", content),
+      );
+      etag = `"${
+        Array.from(digest.subarray(0, 16))
+          .map((byte) => byte.toString(16).padStart(2, "0"))
+          .join("")
+      }"`;
+      etags.set(path, etag);
+    }
+    return {
+      path,
+      size: content.byteLength,
+      etag,
+      mtime: null,
+      read: (start, length) =>
+        Promise.resolve(content.slice(start, start + length)),
+    };
+  };
+}
+
+/**
+ * Whether an `If-None-Match` header matches an ETag, with weak comparison.
+ * @param header - The `If-None-Match` header.
+ * @param tag - The ETag of the file.
+ * @returns Whether the file is unchanged.
+ */
+export function matchesEtag(header: string, tag: string): boolean {
+  const weak = (value: string) => value.trim().replace(/^W\//, "");
+  return header.trim() === "*" ||
+    header.split(",").some((value) => weak(value) === weak(tag));
+}
+
+/**
+ * Parse a single-range `Range` header into inclusive byte offsets.
+ * @param header - The `Range` header.
+ * @param size - The file size.
+ * @returns The first and last offsets, or `undefined` when the range can't
+ * be satisfied.
+ */
+export function parseRange(
+  header: string,
+  size: number,
+): [number, number] | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (match === null || (match[1] === "" && match[2] === "")) {
+    return undefined;
+  }
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // Suffix range, the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  return start <= end && start < size ? [start, end] : undefined;
+}
+
+/**
+ * Read `length` bytes of a file from `start`.
+ */
+async function readRange(
+  path: string,
+  start: number,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const file = await Deno.open(path);
+  try {
+    await file.seek(start, Deno.SeekMode.Start);
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    while (offset < length) {
+      const read = await file.read(bytes.subarray(offset));
+      if (read === null) break;
+      offset += read;
+    }
+    return bytes.subarray(0, offset);
+  } finally {
+    file.close();
+  }
+}
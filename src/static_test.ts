@@ -0,0 +1,79 @@
+import { assertEquals } from "@std/assert";
+import {
+  matchesEtag,
+  parseRange,
+  pathSegments,
+  serveMemory,
+} from "./static.ts";
+
+Deno.test("parseRange() parses single byte ranges", () => {
+  assertEquals(parseRange("bytes=0-9", 100), [0, 9]);
+  assertEquals(parseRange("bytes=90-", 100), [90, 99]);
+  assertEquals(parseRange("bytes=-10", 100), [90, 99]);
+  assertEquals(parseRange("bytes=-200", 100), [0, 99]);
+  assertEquals(parseRange("bytes=50-500", 100), [50, 99]);
+  assertEquals(parseRange(" bytes=1-1 ", 100), [1, 1]);
+});
+
+Deno.test("parseRange() rejects unsatisfiable ranges", () => {
+  assertEquals(parseRange("bytes=100-", 100), undefined);
+  assertEquals(parseRange("bytes=9-0", 100), undefined);
+  assertEquals(parseRange("bytes=-", 100), undefined);
+  assertEquals(parseRange("bytes=0-1,5-6", 100), undefined);
+  assertEquals(parseRange("items=0-1", 100), undefined);
+  assertEquals(parseRange("bytes=0-", 0), undefined);
+});
+
+Deno.test("matchesEtag() compares weakly", () => {
+  assertEquals(matchesEtag('"abc"', '"abc"'), true);
+  assertEquals(matchesEtag('W/"abc"', '"abc"'), true);
+  assertEquals(matchesEtag('"abc"', 'W/"abc"'), true);
+  assertEquals(matchesEtag('"x", "abc"', '"abc"'), true);
+  assertEquals(matchesEtag("*", '"abc"'), true);
+  assertEquals(matchesEtag('"abcd"', '"abc"'), false);
+  assertEquals(matchesEtag("", '"abc"'), false);
+});
+
+Deno.test("pathSegments() stays inside the root", () => {
+  assertEquals(pathSegments("/a/b/c.txt"), ["a", "b", "c.txt"]);
+  assertEquals(pathSegments("/a/./b//c"), ["a", "b", "c"]);
+  assertEquals(pathSegments("/../secret"), ["secret"]);
+  assertEquals(pathSegments("/a/../../../etc/passwd"), ["etc", "passwd"]);
+  assertEquals(pathSegments("/..\\..\\secret"), ["secret"]);
+  assertEquals(pathSegments("/"), []);
+});
+
+Deno.test("serveMemory() answers Range and If-None-Match", async () => {
+  const handler = serveMemory(
+    { "index.html": "0123456789" },
+    {},
+    () => "text/html",
+  );
+  const url = "http://localhost/index.html";
+
+  const partial = (await handler(
+    new Request(url, { headers: { Range: "bytes=2-4" } }),
+  ))!;
+  assertEquals(partial.status, 206);
+  assertEquals(partial.headers.get("Content-Range"), "bytes 2-4/10");
+  assertEquals(await partial.text(), "234");
+
+  const etag = partial.headers.get("ETag")!;
+  const cached = (await handler(
+    new Request(url, { headers: { "If-None-Match": etag } }),
+  ))!;
+  assertEquals(cached.status, 304);
+});
+
+Deno.test("serveMemory() answers HEAD with the file length", async () => {
+  const handler = serveMemory(
+    { "a.txt": "0123456789" },
+    {},
+    () => "text/plain",
+  );
+  const response = (await handler(
+    new Request("http://localhost/a.txt", { method: "HEAD" }),
+  ))!;
+  assertEquals(response.headers.get("Content-Length"), "10");
+  assertEquals(response.body, null);
+});
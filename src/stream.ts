@@ -0,0 +1,206 @@
+// Deno WebUI
+// Framed binary streams from Deno to the browser, built on `sendRaw`
+
+import { WebUIError } from "./errors.ts";
+
+/** Name of the browser function receiving stream frames. */
+export const STREAM_RECEIVER = "__webuiDenoStream";
+
+/** Id of the binding the browser calls to acknowledge a frame. */
+export const STREAM_ACK = "__webuiDenoStreamAck";
+
+/**
+ * Frame types. Every frame starts with a 9 bytes header:
+ * type (u8), stream id (u32), sequence number (u32), big-endian.
+ */
+export enum FrameType {
+  Open = 0, // Payload is the stream name
+  Data, // Payload is a chunk
+  End, // No payload
+  Abort, // Payload is the reason
+}
+
+/**
+ * Build a stream frame.
+ * @param type - The frame type.
+ * @param id - The stream id.
+ * @param seq - The frame sequence number.
+ * @param payload - The frame payload.
+ * @returns The frame bytes.
+ */
+export function frame(
+  type: FrameType,
+  id: number,
+  seq: number,
+  payload: Uint8Array = new Uint8Array(),
+): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(9 + payload.byteLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, type);
+  view.setUint32(1, id);
+  view.setUint32(5, seq);
+  bytes.set(payload, 9);
+  return bytes;
+}
+
+/**
+ * The sending side of a stream opened with `WebUI.prototype.openStream`.
+ * Keeps at most `window` data frames unacknowledged by the browser. Frames
+ * are queued until `ready` resolves, so none is lost before the browser
+ * bridge is installed.
+ */
+export class OutgoingStream {
+  #id: number;
+  #send: (frame: Uint8Array<ArrayBuffer>) => void;
+  #chunkSize: number;
+  #window: number;
+  #timeout: number;
+  #onDone: () => void;
+  #sent = 0;
+  #acked = 0;
+  #error: unknown;
+  #done = false;
+  #wake: (() => void) | undefined;
+  #queue: Uint8Array<ArrayBuffer>[] | undefined;
+
+  /** The stream to write to. */
+  readonly writable: WritableStream<Uint8Array>;
+
+  constructor(
+    id: number,
+    name: string,
+    send: (frame: Uint8Array<ArrayBuffer>) => void,
+    options: {
+      chunkSize: number;
+      window: number;
+      timeout: number;
+      ready?: Promise<unknown>;
+    },
+    onDone: () => void,
+  ) {
+    this.#id = id;
+    this.#send = send;
+    this.#chunkSize = options.chunkSize;
+    this.#window = options.window;
+    this.#timeout = options.timeout;
+    this.#onDone = onDone;
+    if (options.ready !== undefined) {
+      this.#queue = [];
+      options.ready.then(() => this.#flush(), (error) => this.fail(error));
+    }
+    this.writable = new WritableStream<Uint8Array>({
+      start: (controller) => {
+        // `abort()` only runs once the pending write settles, wake it up
+        controller.signal.addEventListener("abort", () => {
+          this.#error ??= controller.signal.reason;
+          this.#wake?.();
+        });
+        this.#post(
+          frame(FrameType.Open, id, 0, new TextEncoder().encode(name)),
+        );
+      },
+      write: async (chunk) => {
+        for (let i = 0; i < chunk.byteLength; i += this.#chunkSize) {
+          await this.#until(() => this.#sent - this.#acked < this.#window);
+          this.#post(
+            frame(
+              FrameType.Data,
+              this.#id,
+              this.#sent++,
+              chunk.subarray(i, i + this.#chunkSize),
+            ),
+          );
+        }
+      },
+      close: async () => {
+        // Resolve once the browser has read everything
+        await this.#until(() => this.#acked >= this.#sent);
+        this.#finish(FrameType.End);
+      },
+      abort: (reason) => {
+        this.#finish(FrameType.Abort, reason);
+      },
+    });
+  }
+
+  /**
+   * Record a browser acknowledgement. With several clients, flow control
+   * follows the fastest one.
+   * @param seq - Sequence number of the frame read by the browser.
+   */
+  ack(seq: number) {
+    this.#acked = Math.max(this.#acked, seq + 1);
+    this.#wake?.();
+  }
+
+  /**
+   * Fail pending and future writes, e.g. when the window is closed, and
+   * abort the stream in the browser.
+   * @param error - The error to reject with.
+   */
+  fail(error: unknown) {
+    this.#error ??= error;
+    this.#wake?.();
+    this.#finish(FrameType.Abort, error);
+  }
+
+  /**
+   * Send a frame, or queue it until the browser is ready.
+   */
+  #post(data: Uint8Array<ArrayBuffer>) {
+    if (this.#queue !== undefined) {
+      this.#queue.push(data);
+    } else {
+      this.#send(data);
+    }
+  }
+
+  /**
+   * Send the queued frames, once the browser is ready.
+   */
+  #flush() {
+    const queue = this.#queue ?? [];
+    this.#queue = undefined;
+    for (const data of queue) this.#send(data);
+  }
+
+  /**
+   * Send the last frame, once.
+   */
+  #finish(type: FrameType.End | FrameType.Abort, reason?: unknown) {
+    if (this.#done) return;
+    this.#done = true;
+    const payload = type === FrameType.Abort
+      ? new TextEncoder().encode(
+        reason instanceof Error ? reason.message : String(reason ?? ""),
+      )
+      : undefined;
+    this.#post(frame(type, this.#id, this.#sent, payload));
+    this.#onDone();
+  }
+
+  /**
+   * Wait until `ready()` holds, rejecting if the stream failed or the
+   * browser sent no acknowledgement within the timeout.
+   */
+  async #until(ready: () => boolean) {
+    while (!ready()) {
+      if (this.#error !== undefined) throw this.#error;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await new Promise<void>((resolve) => {
+        this.#wake = resolve;
+        if (this.#timeout > 0) {
+          timer = setTimeout(() =>
+            this.fail(
+              new WebUIError(
+                `stream timed out: the UI read nothing within ${this.#timeout}s`,
+              ),
+            ), this.#timeout * 1000);
+        }
+      });
+      clearTimeout(timer);
+      this.#wake = undefined;
+    }
+    if (this.#error !== undefined) throw this.#error;
+  }
+}
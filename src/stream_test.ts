@@ -0,0 +1,95 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { FrameType, OutgoingStream } from "./stream.ts";
+import { WebUIError } from "./errors.ts";
+
+/** Open a stream recording the type of each frame sent. */
+function open(options: { window?: number; timeout?: number } = {}) {
+  const frames: FrameType[] = [];
+  let done = false;
+  const stream = new OutgoingStream(
+    1,
+    "test",
+    (frame) => frames.push(frame[0]),
+    {
+      chunkSize: 1,
+      window: options.window ?? 1,
+      timeout: options.timeout ?? 0,
+    },
+    () => done = true,
+  );
+  return { stream, frames, isDone: () => done };
+}
+
+Deno.test("OutgoingStream waits for acknowledgements", async () => {
+  const { stream, frames, isDone } = open();
+  const writer = stream.writable.getWriter();
+  const write = writer.write(new Uint8Array([1, 2]));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(frames, [FrameType.Open, FrameType.Data]);
+  stream.ack(0);
+  await write;
+  stream.ack(1);
+  await writer.close();
+  assertEquals(frames, [
+    FrameType.Open,
+    FrameType.Data,
+    FrameType.Data,
+    FrameType.End,
+  ]);
+  assertEquals(isDone(), true);
+});
+
+Deno.test("OutgoingStream abort() under backpressure", async () => {
+  const { stream, frames, isDone } = open();
+  const writer = stream.writable.getWriter();
+  const write = writer.write(new Uint8Array([1, 2]));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  await writer.abort(new Error("stop"));
+  await assertRejects(() => write, Error, "stop");
+  assertEquals(frames, [FrameType.Open, FrameType.Data, FrameType.Abort]);
+  assertEquals(isDone(), true);
+});
+
+Deno.test("OutgoingStream fail() rejects pending writes", async () => {
+  const { stream, frames } = open();
+  const writer = stream.writable.getWriter();
+  const write = writer.write(new Uint8Array([1, 2]));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  stream.fail(new WebUIError("closed"));
+  await assertRejects(() => write, WebUIError, "closed");
+  assertEquals(frames, [FrameType.Open, FrameType.Data, FrameType.Abort]);
+});
+
+Deno.test("OutgoingStream close() times out when nothing is read", async () => {
+  const { stream, frames } = open({ window: 4, timeout: 0.01 });
+  const writer = stream.writable.getWriter();
+  await writer.write(new Uint8Array([1]));
+  await assertRejects(() => writer.close(), WebUIError, "timed out");
+  assertEquals(frames, [FrameType.Open, FrameType.Data, FrameType.Abort]);
+});
+
+Deno.test("OutgoingStream queues frames until ready", async () => {
+  const frames: FrameType[] = [];
+  let connect!: () => void;
+  const stream = new OutgoingStream(
+    1,
+    "test",
+    (frame) => frames.push(frame[0]),
+    {
+      chunkSize: 1,
+      window: 1,
+      timeout: 0,
+      ready: new Promise<void>((resolve) => connect = resolve),
+    },
+    () => {},
+  );
+  const writer = stream.writable.getWriter();
+  const write = writer.write(new Uint8Array([1]));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(frames, []);
+  connect();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(frames, [FrameType.Open, FrameType.Data]);
+  stream.ack(0);
+  await write;
+});
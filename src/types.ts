@@ -1,5 +1,6 @@
 import type { WebUI } from "../mod.ts";
 import type { loadLib } from "./lib.ts";
+import type { WebUIClient } from "./client.ts";
 
 export type Usize = number | bigint;
 
@@ -15,6 +16,87 @@ export type BindCallback<
   T extends Datatypes | undefined | void,
 > = (event: WebUIEvent) => T | Promise<T>;
 
+/**
+ * Context passed to a `RequestHandler` with the request.
+ */
+export interface RequestContext {
+  /** The window the request was made to. */
+  window: WebUI;
+}
+
+/**
+ * Defines the signature of handlers used with
+ * `WebUI.prototype.setRequestHandler`, compatible with `Deno.serve` handlers.
+ *
+ * @param request The incoming request.
+ * @param context The window the request was made to.
+ * @returns The response, or `undefined` to let WebUI serve the file itself.
+ */
+export type RequestHandler = (
+  request: Request,
+  context: RequestContext,
+) => Response | undefined | Promise<Response | undefined>;
+
+/**
+ * A `RequestHandler` that doesn't use the request context, like the handlers
+ * of `WebUI.serveStatic` and `WebUI.prototype.proxyTo`.
+ *
+ * @param request The incoming request.
+ * @returns The response, or `undefined` to let WebUI serve the file itself.
+ */
+export type ContextFreeHandler = (
+  request: Request,
+) => Promise<Response | undefined>;
+
+/**
+ * Context shared by the middleware of a request, see `Middleware`.
+ */
+export interface MiddlewareContext extends RequestContext {
+  /** The incoming request. */
+  request: Request;
+  /** The parsed request URL. */
+  url: URL;
+  /** Path parameters set by `route()`. */
+  params: Record<string, string | undefined>;
+  /** Free-form data shared between middleware. */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Defines the signature of middleware used with `WebUI.prototype.use`.
+ *
+ * @param ctx The request context.
+ * @param next Runs the next middleware, then the window request handlers,
+ * and resolves with their response (`undefined` when not handled).
+ * @returns The response, usually the one from `next()`, or `undefined` to
+ * let WebUI serve the file itself.
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: () => Promise<Response | undefined>,
+) => Response | undefined | Promise<Response | undefined>;
+
+/**
+ * Defines the signature of native log handlers used with `WebUI.setLogger`.
+ *
+ * @param level The message level, see `WebUI.LogLevel`.
+ * @param message The log message.
+ */
+export type LogHandler = (level: WebUI.LogLevel, message: string) => void;
+
+/**
+ * A logger with one method per level, such as `console` or a `@std/log`
+ * `Logger`, usable with `WebUI.setLogger`.
+ */
+export interface LogTarget {
+  /** Log a debug message. */
+  debug(message: string): unknown;
+  /** Log an info message. */
+  info(message: string): unknown;
+  /** Log an error message. */
+  error(message: string): unknown;
+}
+
 export type WebUILib = Awaited<ReturnType<typeof loadLib>>;
 
 /**
@@ -29,16 +111,26 @@ export interface WebUIEvent {
   eventNumber: number;
   /** The ID ('#' attribute) of the HTML element that triggered the event, if applicable. */
   element: string;
+  /** The client that triggered the event. It can be kept after the event returns. */
+  client: WebUIClient;
   /**
    * An object containing methods to retrieve arguments passed from the UI JavaScript function call.
    */
   arg: {
+    /** The number of arguments passed from the UI. */
+    count: number;
     /**
      * Retrieves a numeric argument passed from the UI at the specified index.
      * @param index The zero-based index of the argument.
      * @returns The numeric value of the argument.
      */
     number: (index: number) => number;
+    /**
+     * Retrieves a floating point argument passed from the UI at the specified index.
+     * @param index The zero-based index of the argument.
+     * @returns The numeric value of the argument.
+     */
+    float: (index: number) => number;
     /**
      * Retrieves a string argument passed from the UI at the specified index.
      * @param index The zero-based index of the argument.
@@ -51,9 +143,44 @@ export interface WebUIEvent {
      * @returns The boolean value of the argument.
      */
     boolean: (index: number) => boolean;
+    /**
+     * Retrieves the size in bytes of an argument passed from the UI at the specified index.
+     * @param index The zero-based index of the argument.
+     * @returns The size of the argument.
+     */
+    size: (index: number) => number;
+    /**
+     * Retrieves a binary argument (`Uint8Array` or `ArrayBuffer` in the UI)
+     * passed from the UI at the specified index.
+     * @param index The zero-based index of the argument.
+     * @returns A copy of the argument data.
+     */
+    bytes: (index: number) => Uint8Array<ArrayBuffer>;
   };
 }
 
+/**
+ * Represents a navigation event, see `WebUIEventMap`.
+ */
+export interface WebUINavigationEvent extends WebUIEvent {
+  /** The URL the client navigated to. */
+  url: string;
+}
+
+/**
+ * Events emitted by a `WebUI` window, see `WebUI.prototype.on`.
+ */
+export interface WebUIEventMap {
+  /** A client connected to the window. */
+  connected: WebUIEvent;
+  /** A client disconnected from the window. */
+  disconnected: WebUIEvent;
+  /** An HTML element was clicked. `element` is its id, if any. */
+  click: WebUIEvent;
+  /** A client navigated to another URL. */
+  navigate: WebUINavigationEvent;
+}
+
 /**
  * Represents the basic data types that can be returned from a `BindCallback`
  * function and serialized back to the UI.
@@ -62,3 +189,36 @@ export type Datatypes =
   | string
   | number
   | boolean;
+
+/**
+ * Represents the values that can be passed to and returned from functions
+ * registered with `WebUI.prototype.expose`. `Date`, `bigint` and `undefined`
+ * are tagged so they survive the JSON round trip.
+ */
+export type Serializable =
+  | Datatypes
+  | null
+  | undefined
+  | bigint
+  | Date
+  | Serializable[]
+  | { [key: string]: Serializable };
+
+/**
+ * Defines the signature for functions registered with `WebUI.prototype.expose`.
+ * Arguments and the (optionally awaited) return value should be `Serializable`.
+ */
+export type ExposedFunction = (...args: never[]) => unknown;
+
+/**
+ * Maps a backend API object passed to `WebUI.prototype.exposeApi` to the
+ * shape of the generated frontend module: same names and parameters, with
+ * every return value wrapped in a `Promise`.
+ *
+ * @template T The type of the backend API object (`typeof api`).
+ */
+export type ApiClient<T extends Record<string, ExposedFunction>> = {
+  [K in keyof T]: (
+    ...args: Parameters<T[K]>
+  ) => Promise<Awaited<ReturnType<T[K]>>>;
+};
@@ -1,47 +1,56 @@
 // Deno WebUI
 // Utilities
-import { dirname, join } from "@std/path";
-import { exists } from "@std/fs";
+import { dirname, join, relative } from "@std/path";
+import { exists, existsSync } from "@std/fs";
 import { BlobReader, BlobWriter, ZipReader } from "@zip-js/zip-js";
+import { checksums } from "./checksums.ts";
+import { IntegrityError } from "./errors.ts";
 
-// The WebUI core version to download (Consider using this if not using nightly)
+// The WebUI core version downloaded by default. Override it with the
+// `WEBUI_CORE_VERSION` environment variable, or the `coreVersion` field of a
+// `webui.json` file in the working directory: a release tag, or "nightly".
+// A release is only downloaded if its digests are pinned in checksums.ts.
 export const WebUICoreVersion = "2.5.0-beta.3";
-export const useNightly = true; // Set to false to use WebUICoreVersion
+
+// Name of the file recording the resolved libraries, in the cache directory
+const lockFileName = "webui.lock.json";
 
 // --- Cache Directory Logic ---
 
 /**
- * Gets the base WebUI cache directory for the current platform.
- * Creates the base directory if it doesn't exist.
- * This directory will contain version-specific subdirectories.
- * Example: ~/.cache/deno_webui (Linux) or ~/Library/Caches/deno_webui (macOS)
- * @returns {Promise<string>} The path to the base WebUI cache directory.
+ * Gets the standard cache directory of the current platform, without
+ * creating it.
+ * @returns {string | undefined} The path, or undefined if the platform has none.
  */
-async function getBaseWebUICacheDir(): Promise<string> {
-  let baseCacheDir: string | undefined;
-
+function getPlatformCacheDir(): string | undefined {
   switch (Deno.build.os) {
     case "windows": {
-      baseCacheDir = Deno.env.get("LOCALAPPDATA");
-      break;
+      return Deno.env.get("LOCALAPPDATA");
     }
     case "darwin": {
       const home = Deno.env.get("HOME");
-      if (home) {
-        baseCacheDir = join(home, "Library", "Caches");
-      }
-      break;
+      return home ? join(home, "Library", "Caches") : undefined;
     }
-    default: // Linux, FreeBSD, etc.
-      baseCacheDir = Deno.env.get("XDG_CACHE_HOME");
-      if (!baseCacheDir) {
-        const home = Deno.env.get("HOME");
-        if (home) {
-          baseCacheDir = join(home, ".cache");
-        }
+    default: { // Linux, FreeBSD, etc.
+      const xdgCacheHome = Deno.env.get("XDG_CACHE_HOME");
+      if (xdgCacheHome) {
+        return xdgCacheHome;
       }
-      break;
+      const home = Deno.env.get("HOME");
+      return home ? join(home, ".cache") : undefined;
+    }
   }
+}
+
+/**
+ * Gets the base WebUI cache directory for the current platform.
+ * Creates the base directory if it doesn't exist.
+ * This directory will contain version-specific subdirectories.
+ * Example: ~/.cache/deno_webui (Linux) or ~/Library/Caches/deno_webui (macOS)
+ * @returns {Promise<string>} The path to the base WebUI cache directory.
+ */
+export async function getBaseWebUICacheDir(): Promise<string> {
+  let baseCacheDir = getPlatformCacheDir();
 
   if (!baseCacheDir) {
     // Fallback to a temporary directory if no standard cache is found
@@ -62,19 +71,235 @@ async function getBaseWebUICacheDir(): Promise<string> {
   return webuiBaseCacheDir;
 }
 
+// --- Version Resolution Policy ---
+
 /**
- * Determines the specific version directory name based on configuration.
- * @returns {Promise<string>} "nightly-$hashOfLastModifiedNightly" or the specific WebUICoreVersion.
+ * Determines the WebUI core version to use, from the first of:
+ * 1. The `WEBUI_CORE_VERSION` environment variable.
+ * 2. The `coreVersion` field of `webui.json` in the working directory.
+ * 3. The pinned `WebUICoreVersion`.
+ * @returns {string} A release tag (e.g., "2.5.0-beta.3") or "nightly".
  */
-async function getVersionDirName(): Promise<string> {
-  if (useNightly) {
-    return `nightly-${await getlLastModifedNightlyDateAsHash()}`;
+export function getCoreVersion(): string {
+  const envVersion = Deno.env.get("WEBUI_CORE_VERSION");
+  if (envVersion) {
+    return envVersion;
+  }
+  try {
+    const config = JSON.parse(Deno.readTextFileSync("webui.json"));
+    if (typeof config?.coreVersion === "string" && config.coreVersion) {
+      return config.coreVersion;
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error("Invalid webui.json", { cause: error });
+    }
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
   }
   return WebUICoreVersion;
 }
 
+/**
+ * Determines the specific version directory name for a core version.
+ * @param {string} coreVersion - A release tag or "nightly".
+ * @returns {Promise<string>} "nightly-$hashOfLastModifiedNightly" or the release tag.
+ */
+async function getVersionDirName(coreVersion: string): Promise<string> {
+  if (coreVersion === "nightly") {
+    return `nightly-${await getlLastModifedNightlyDateAsHash()}`;
+  }
+  return coreVersion;
+}
+
+// --- Lock File ---
+
+/**
+ * A library recorded in the lock file.
+ */
+export interface LockEntry {
+  /** The requested core version, a release tag or "nightly". */
+  coreVersion: string;
+  /** The version directory name in the cache. */
+  versionDirName: string;
+  /** The archive the library was extracted from. */
+  archive: string;
+  /** SHA-256 digest (hex) of the library file. */
+  sha256: string;
+  /** SHA-256 digest (hex) of the archive, which re-downloads must match. */
+  archiveSha256?: string;
+  /** When the library was downloaded (ISO 8601). */
+  resolvedAt: string;
+}
+
+/**
+ * Reads the lock file of the cache directory.
+ * @param {string} baseWebUICacheDir - The base WebUI cache directory.
+ * @returns {Promise<Record<string, LockEntry>>} The entries, by library path relative to the cache directory.
+ */
+export async function readLockFile(
+  baseWebUICacheDir: string,
+): Promise<Record<string, LockEntry>> {
+  try {
+    return JSON.parse(
+      await Deno.readTextFile(join(baseWebUICacheDir, lockFileName)),
+    );
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finds the most recent lock file entry of a core version and platform,
+ * without writes.
+ * @param {string} baseWebUICacheDir - The base WebUI cache directory.
+ * @param {string} coreVersion - A release tag or "nightly".
+ * @param {LibTarget} target - The platform.
+ * @returns {LockEntry | undefined} The entry, if the version was resolved before.
+ */
+export function findLockEntry(
+  baseWebUICacheDir: string,
+  coreVersion: string,
+  target: LibTarget,
+): LockEntry | undefined {
+  let lock: Record<string, LockEntry>;
+  try {
+    lock = JSON.parse(
+      Deno.readTextFileSync(join(baseWebUICacheDir, lockFileName)),
+    );
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+  const archive = archiveName(target);
+  let found: LockEntry | undefined;
+  for (const entry of Object.values(lock)) {
+    if (entry.coreVersion !== coreVersion || entry.archive !== archive) {
+      continue;
+    }
+    if (found === undefined || entry.resolvedAt > found.resolvedAt) {
+      found = entry;
+    }
+  }
+  return found;
+}
+
+/**
+ * Records a library in the lock file of the cache directory.
+ * @param {string} baseWebUICacheDir - The base WebUI cache directory.
+ * @param {string} libPath - The library path relative to the cache directory.
+ * @param {LockEntry} entry - The library record.
+ * @returns {Promise<void>}
+ */
+async function recordLockEntry(
+  baseWebUICacheDir: string,
+  libPath: string,
+  entry: LockEntry,
+): Promise<void> {
+  const lock = await readLockFile(baseWebUICacheDir);
+  lock[libPath.replace(/\\/g, "/")] = entry;
+  await writeLockFile(baseWebUICacheDir, lock);
+}
+
+/**
+ * Replaces the lock file of the cache directory.
+ * @param {string} baseWebUICacheDir - The base WebUI cache directory.
+ * @param {Record<string, LockEntry>} lock - The entries, by library path relative to the cache directory.
+ * @returns {Promise<void>}
+ */
+export async function writeLockFile(
+  baseWebUICacheDir: string,
+  lock: Record<string, LockEntry>,
+): Promise<void> {
+  const lockPath = join(baseWebUICacheDir, lockFileName);
+  const tempLockPath = `${lockPath}.${crypto.randomUUID()}.tmp`;
+  await Deno.writeTextFile(tempLockPath, JSON.stringify(lock, null, 2) + "\n");
+  await Deno.rename(tempLockPath, lockPath);
+}
+
 // --- Download and Extraction Logic ---
 
+/**
+ * Computes the SHA-256 digest of some data.
+ * @param {Uint8Array} data - The data to hash.
+ * @returns {Promise<string>} The lowercase hex digest.
+ */
+export async function sha256(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(
+    new Uint8Array(hashBuffer),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Gets the expected SHA-256 digest of an archive: the digest pinned in
+ * `checksums.ts` for a release, or the given digest for a nightly build,
+ * which can't be pinned in advance.
+ * @param {string} version - The version directory name (e.g., "2.5.0-beta.3").
+ * @param {string} zipFileName - The archive name (e.g., "webui-linux-gcc-x64.zip").
+ * @param {string} [nightlySha256] - The expected digest (hex) of a nightly archive.
+ * @returns {string} The expected digest (hex).
+ * @throws {IntegrityError} If no digest is known.
+ */
+export function expectedArchiveDigest(
+  version: string,
+  zipFileName: string,
+  nightlySha256?: string,
+): string {
+  const nightly = version.startsWith("nightly");
+  const expected = nightly ? nightlySha256 : checksums[version]?.[zipFileName];
+  if (expected === undefined) {
+    throw new IntegrityError(
+      nightly
+        ? `No SHA-256 digest for ${zipFileName} (${version}): set WEBUI_LIB_SHA256 to the digest of the nightly archive`
+        : `No SHA-256 digest pinned for ${zipFileName} (${version}): add it to checksums.ts, or use WEBUI_LIB_PATH`,
+    );
+  }
+  return expected.trim().toLowerCase();
+}
+
+/**
+ * Verifies a downloaded archive against its expected SHA-256 digest.
+ * @param {Uint8Array} zipData - The downloaded archive.
+ * @param {string} version - The version directory name (e.g., "2.5.0-beta.3").
+ * @param {string} zipFileName - The archive name (e.g., "webui-linux-gcc-x64.zip").
+ * @param {string} expected - The expected digest (hex), from `expectedArchiveDigest()`.
+ * @returns {Promise<string>} The digest of the archive.
+ * @throws {IntegrityError} If the archive doesn't match the digest.
+ */
+async function verifyArchive(
+  zipData: Uint8Array<ArrayBuffer>,
+  version: string,
+  zipFileName: string,
+  expected: string,
+): Promise<string> {
+  const actual = await sha256(zipData);
+  if (actual !== expected) {
+    throw new IntegrityError(
+      `Checksum mismatch for ${zipFileName} (${version}): expected SHA-256 ${expected}, got ${actual}`,
+    );
+  }
+  return actual;
+}
+
+/**
+ * Gets the download URL of a release archive.
+ * @param {string} version - A release tag, or a version directory name starting with "nightly".
+ * @param {string} zipFileName - The archive name (e.g., "webui-linux-gcc-x64.zip").
+ * @returns {string} The URL of the archive on GitHub.
+ */
+export function archiveUrl(version: string, zipFileName: string): string {
+  const tag = version.startsWith("nightly") ? "nightly" : version;
+  return `https://github.com/webui-dev/webui/releases/download/${tag}/${zipFileName}`;
+}
+
 /**
  * Downloads and extracts the required WebUI library to the specific version cache directory.
  * @param {string} targetLibPath - The final path where the library should exist in the cache (e.g., ~/.cache/deno_webui/2.5.0-beta.3/webui-2.dll).
@@ -82,7 +307,9 @@ async function getVersionDirName(): Promise<string> {
  * @param {string} compilerName - Compiler identifier (e.g., "msvc", "clang", "gcc").
  * @param {string} archName - Architecture identifier (e.g., "x64", "arm64").
  * @param {string} libFileNameInZip - The full path of the library *inside* the zip archive.
- * @returns {Promise<void>}
+ * @param {string} version - The version directory name ("nightly-$hashOfLastModifiedNightlyRelease" or the specific version string).
+ * @param {string} [nightlySha256] - The expected digest of a nightly archive.
+ * @returns {Promise<{ archive: string; library: string }>} The SHA-256 digests of the archive and of the extracted library.
  * @throws {Error} If download or extraction fails.
  */
 async function downloadAndExtractLibrary(
@@ -91,20 +318,28 @@ async function downloadAndExtractLibrary(
   compilerName: string,
   archName: string,
   libFileNameInZip: string,
-): Promise<void> {
+  version: string,
+  nightlySha256?: string,
+): Promise<{ archive: string; library: string }> {
   // The cache directory for this *specific version*
   const versionCacheDir = dirname(targetLibPath);
 
   // Determine download URL
-  const version = await getVersionDirName(); // Get "nightly-$hashOfLastModifiedNightlyRelease" or the specific version string
-  const baseUrl = version.startsWith("nightly")
-    ? `https://github.com/webui-dev/webui/releases/download/nightly/`
-    : `https://github.com/webui-dev/webui/releases/download/${version}/`;
-
   const zipFileName = `webui-${osName}-${compilerName}-${archName}.zip`;
-  const zipUrl = `${baseUrl}${zipFileName}`;
-  // Temporary download path inside the version-specific cache dir
-  const tempZipPath = join(versionCacheDir, `${zipFileName}.download`);
+  const zipUrl = archiveUrl(version, zipFileName);
+  // Reject an archive without a known digest before downloading it
+  const expectedDigest = expectedArchiveDigest(
+    version,
+    zipFileName,
+    nightlySha256,
+  );
+  // Temporary download path inside the version-specific cache dir, unique so
+  // concurrent downloads of the same archive don't overwrite each other
+  const tempZipPath = join(
+    versionCacheDir,
+    `${zipFileName}.${crypto.randomUUID()}.download`,
+  );
+  const tempLibPath = `${targetLibPath}.${crypto.randomUUID()}.tmp`;
 
   // console.log(`Downloading WebUI library (${version}) from ${zipUrl}...`);
 
@@ -119,17 +354,25 @@ async function downloadAndExtractLibrary(
         `Failed to download ${zipUrl}: ${res.status} ${res.statusText}`,
       );
     }
-    const zipData = await res.arrayBuffer();
-    await Deno.writeFile(tempZipPath, new Uint8Array(zipData));
+    const zipData = new Uint8Array(await res.arrayBuffer());
+    await Deno.writeFile(tempZipPath, zipData);
     // console.log(`Downloaded to ${tempZipPath}`);
 
+    // Verify the archive before extracting anything from it
+    const archiveDigest = await verifyArchive(
+      zipData,
+      version,
+      zipFileName,
+      expectedDigest,
+    );
+
     // Extract the specific library file
     // console.log(`Extracting ${libFileNameInZip} from ${tempZipPath}...`);
     const zipBlob = new Blob([zipData]);
     const zipReader = new ZipReader(new BlobReader(zipBlob));
     const entries = await zipReader.getEntries();
 
-    let foundEntry = false;
+    let libDigest: string | undefined;
     for (const entry of entries) {
       // Normalize zip entry filename (might contain different slashes)
       const entryPath = entry.filename.replace(/\\/g, "/");
@@ -139,27 +382,29 @@ async function downloadAndExtractLibrary(
         // console.log(`Found entry: ${entry.filename}`);
         const writer = new BlobWriter();
         const data = await entry.getData!(writer);
-        await Deno.writeFile(
-          targetLibPath,
-          new Uint8Array(await data.arrayBuffer()),
-        );
-        foundEntry = true;
+        // Write next to the target then rename, so the cache never holds a
+        // partial library
+        const libData = new Uint8Array(await data.arrayBuffer());
+        await Deno.writeFile(tempLibPath, libData);
+        await Deno.rename(tempLibPath, targetLibPath);
+        libDigest = await sha256(libData);
         // console.log(`Extracted library to ${targetLibPath}`);
         break; // Found the file, no need to check others
       }
     }
     await zipReader.close();
 
-    if (!foundEntry) {
+    if (libDigest === undefined) {
       throw new Error(
         `Library file "${libFileNameInZip}" not found inside downloaded archive ${zipFileName}`,
       );
     }
+    return { archive: archiveDigest, library: libDigest };
   } catch (error) {
     console.error("WebUI library download/extraction failed:", error);
     // Clean up partial download if it exists
     try {
-      await Deno.remove(targetLibPath).catch(() => {}); // Remove potentially incomplete extraction
+      await Deno.remove(tempLibPath).catch(() => {}); // Remove potentially incomplete extraction
     } catch (e) {
       if (!(e instanceof Deno.errors.NotFound)) {
         console.error("Cleanup error:", e);
@@ -180,85 +425,259 @@ async function downloadAndExtractLibrary(
 }
 
 /**
- * Ensures the correct WebUI native library exists in the versioned cache, downloading it if necessary.
- * @param {string} baseLibName - The OS-specific library filename (e.g., "webui-2.dll").
- * @returns {Promise<string>} The full path to the cached library file (e.g., ~/.cache/deno_webui/2.5.0-beta.3/webui-2.dll).
+ * Finds the newest cached nightly library, without network access.
+ * @param {string} baseWebUICacheDir - The base WebUI cache directory.
+ * @param {string} baseLibName - The OS-specific library filename.
+ * @returns {string | undefined} The library path, if any nightly is cached.
  */
-export async function ensureWebUiLib(baseLibName: string): Promise<string> {
-  // 1. Get the base cache directory (e.g., ~/.cache/deno_webui)
-  const baseWebUICacheDir = await getBaseWebUICacheDir();
-
-  // 2. Determine the version-specific subdirectory name ("nightly-$hashOfTheLastModifiedNighylyDate" or "2.5.0-beta.3")
-  const versionDirName = await getVersionDirName();
-
-  // 3. Construct the path to the version-specific cache directory
-  const versionCacheDir = join(baseWebUICacheDir, versionDirName);
-
-  // 4. Construct the final target path for the library file
-  const targetLibPath = join(versionCacheDir, baseLibName);
+export function findCachedNightly(
+  baseWebUICacheDir: string,
+  baseLibName: string,
+): string | undefined {
+  let newest: { path: string; mtime: number } | undefined;
+  for (const entry of Deno.readDirSync(baseWebUICacheDir)) {
+    if (!entry.isDirectory || !entry.name.startsWith("nightly-")) continue;
+    const path = join(baseWebUICacheDir, entry.name, baseLibName);
+    try {
+      const mtime = Deno.statSync(path).mtime?.getTime() ?? 0;
+      if (newest === undefined || mtime > newest.mtime) {
+        newest = { path, mtime };
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+  return newest?.path;
+}
 
-  // 5. Ensure the version-specific cache directory exists *before* checking for the file
-  //    (downloadAndExtractLibrary also does this, but doing it here prevents
-  //     an unnecessary download attempt if only the directory is missing)
-  await Deno.mkdir(versionCacheDir, { recursive: true });
+// --- Platforms ---
 
-  // 6. Check if the library already exists in the cache
-  if (await exists(targetLibPath)) {
-    // console.log(
-    //   `Using cached WebUI library (${versionDirName}): ${targetLibPath}`,
-    // );
-    return targetLibPath;
-  }
+/**
+ * A platform the WebUI library is released for.
+ */
+export interface LibTarget {
+  /** OS identifier of the release archives. */
+  os: "windows" | "macos" | "linux";
+  /** Architecture identifier of the release archives. */
+  arch: "x64" | "arm64";
+}
 
-  // 7. Determine download parameters if not cached
-  // console.log(
-  //   `WebUI library (${versionDirName}) not found in cache. Attempting download...`,
-  // );
-  let osName: string;
-  let compilerName: string;
+/**
+ * Compiler identifier and library filename of each OS.
+ */
+const osLibs: Record<LibTarget["os"], { compiler: string; lib: string }> = {
+  windows: { compiler: "msvc", lib: "webui-2.dll" },
+  macos: { compiler: "clang", lib: "libwebui-2.dylib" },
+  linux: { compiler: "gcc", lib: "libwebui-2.so" },
+};
 
-  const archMap: { [key: string]: string } = {
+/**
+ * Determines the platform of the current process.
+ * @returns {LibTarget} The current OS and architecture.
+ * @throws {Error} If the architecture is not supported.
+ */
+export function hostTarget(): LibTarget {
+  const archMap: { [key: string]: LibTarget["arch"] } = {
     "x86_64": "x64",
     "aarch64": "arm64",
   };
-  const archName = archMap[Deno.build.arch];
-  if (!archName) {
+  const arch = archMap[Deno.build.arch];
+  if (!arch) {
     throw new Error(
       `Unsupported architecture: ${Deno.build.arch} for ${Deno.build.os}`,
     );
   }
-
   switch (Deno.build.os) {
     case "windows":
-      osName = "windows";
-      compilerName = "msvc";
-      break;
+      return { os: "windows", arch };
     case "darwin":
-      osName = "macos";
-      compilerName = "clang";
-      break;
+      return { os: "macos", arch };
     default: // Linux and others
-      osName = "linux";
-      compilerName = "gcc";
-      break;
+      return { os: "linux", arch };
+  }
+}
+
+/**
+ * Gets the library filename of an OS.
+ * @param {LibTarget["os"]} os - The OS identifier.
+ * @returns {string} The library filename (e.g., "webui-2.dll").
+ */
+export function libFileName(os: LibTarget["os"]): string {
+  return osLibs[os].lib;
+}
+
+/**
+ * Gets the release archive name of a platform.
+ * @param {LibTarget} target - The platform.
+ * @returns {string} The archive name (e.g., "webui-linux-gcc-x64.zip").
+ */
+export function archiveName(target: LibTarget): string {
+  return `webui-${target.os}-${osLibs[target.os].compiler}-${target.arch}.zip`;
+}
+
+/**
+ * Gets the library path of a platform inside a version cache directory. The
+ * current platform's library is at the root of it, others in a subdirectory
+ * named like the release archive.
+ * @param {string} versionCacheDir - The version cache directory.
+ * @param {LibTarget} target - The platform.
+ * @returns {string} The library path.
+ */
+function libPathInCache(versionCacheDir: string, target: LibTarget): string {
+  const host = hostTarget();
+  if (target.os === host.os && target.arch === host.arch) {
+    return join(versionCacheDir, libFileName(target.os));
   }
+  const zipDirName = `webui-${target.os}-${
+    osLibs[target.os].compiler
+  }-${target.arch}`;
+  return join(versionCacheDir, zipDirName, libFileName(target.os));
+}
+
+// --- Library Resolution ---
+
+/**
+ * Ensures a WebUI library version exists in the cache, downloading it if
+ * necessary, and records downloads in the lock file. A version in the lock
+ * file resolves to the locked build, so a nightly stays the same until its
+ * entry is removed (e.g. with `cli prune --all`).
+ * @param {string} coreVersion - A release tag (e.g., "2.5.0-beta.3") or "nightly".
+ * @param {LibTarget} target - The platform, defaults to the current one.
+ * @param {string} [nightlySha256] - The expected SHA-256 digest of the nightly
+ * archive of this platform. Nightly builds can't be downloaded without it.
+ * @returns {Promise<string>} The full path to the cached library file.
+ * @throws {IntegrityError} If the archive has no known digest or doesn't match it.
+ */
+export async function fetchWebUiLib(
+  coreVersion: string,
+  target: LibTarget = hostTarget(),
+  nightlySha256?: string,
+): Promise<string> {
+  // 1. Get the base cache directory (e.g., ~/.cache/deno_webui)
+  const baseWebUICacheDir = await getBaseWebUICacheDir();
 
-  const zipDirName = `webui-${osName}-${compilerName}-${archName}`;
-  const libFileNameInZip = `${zipDirName}/${baseLibName}`; // Path inside the zip
+  // 2. Determine the version-specific subdirectory name ("nightly-$hashOfTheLastModifiedNighylyDate" or "2.5.0-beta.3"),
+  //    the locked one if this version was resolved before
+  const locked = findLockEntry(baseWebUICacheDir, coreVersion, target);
+  const versionDirName = locked?.versionDirName ??
+    await getVersionDirName(coreVersion);
 
-  // 8. Download and extract
-  await downloadAndExtractLibrary(
+  // 3. Construct the final target path for the library file
+  const targetLibPath = libPathInCache(
+    join(baseWebUICacheDir, versionDirName),
+    target,
+  );
+
+  // 4. Check if the library already exists in the cache
+  if (await exists(targetLibPath)) {
+    return targetLibPath;
+  }
+
+  // 5. Determine download parameters if not cached
+  const compilerName = osLibs[target.os].compiler;
+  const zipDirName = `webui-${target.os}-${compilerName}-${target.arch}`;
+  const libFileNameInZip = `${zipDirName}/${libFileName(target.os)}`; // Path inside the zip
+
+  // 6. Download and extract, a locked nightly must be the locked archive
+  const digests = await downloadAndExtractLibrary(
     targetLibPath, // Pass the full final path
-    osName,
+    target.os,
     compilerName,
-    archName,
+    target.arch,
     libFileNameInZip,
+    versionDirName,
+    locked?.archiveSha256 ?? nightlySha256,
+  );
+
+  // 7. Record the resolved version and digest next to the cache
+  await recordLockEntry(
+    baseWebUICacheDir,
+    relative(baseWebUICacheDir, targetLibPath),
+    {
+      coreVersion,
+      versionDirName,
+      archive: `${zipDirName}.zip`,
+      sha256: digests.library,
+      archiveSha256: digests.archive,
+      resolvedAt: new Date().toISOString(),
+    },
   );
 
-  // 9. Return the path
+  // 8. Return the path
   return targetLibPath;
 }
 
+/**
+ * Finds the WebUI native library without network access or writes, from:
+ * 1. The `WEBUI_LIB_PATH` environment variable.
+ * 2. The cache: the build of the lock file, or the newest cached nightly
+ *    when no nightly is locked.
+ *
+ * The core version comes from `getCoreVersion()`.
+ * @param {string} baseLibName - The OS-specific library filename (e.g., "webui-2.dll").
+ * @returns {string | undefined} The library path, or undefined if it must be downloaded.
+ * @throws {Error} If `WEBUI_LIB_PATH` is not a file.
+ */
+export function findWebUiLib(baseLibName: string): string | undefined {
+  // 1. Use the explicit library path, if any
+  const envLibPath = Deno.env.get("WEBUI_LIB_PATH");
+  if (envLibPath) {
+    if (!existsSync(envLibPath, { isFile: true })) {
+      throw new Error(
+        `WEBUI_LIB_PATH is set to "${envLibPath}", which is not a file`,
+      );
+    }
+    return envLibPath;
+  }
+
+  // 2. Look into the cache directory, if it was created
+  const platformCacheDir = getPlatformCacheDir();
+  if (!platformCacheDir) {
+    return undefined;
+  }
+  const baseWebUICacheDir = join(platformCacheDir, "deno_webui");
+  if (!existsSync(baseWebUICacheDir, { isDirectory: true })) {
+    return undefined;
+  }
+
+  // 3. Use a cached nightly without asking GitHub for the latest one, so
+  //    offline machines keep working: the locked one, else the newest.
+  const coreVersion = getCoreVersion();
+  if (coreVersion === "nightly") {
+    const locked = findLockEntry(baseWebUICacheDir, coreVersion, hostTarget());
+    if (locked === undefined) {
+      return findCachedNightly(baseWebUICacheDir, baseLibName);
+    }
+    const libPath = join(
+      baseWebUICacheDir,
+      locked.versionDirName,
+      baseLibName,
+    );
+    return existsSync(libPath, { isFile: true }) ? libPath : undefined;
+  }
+
+  // 4. Use the cached release
+  const libPath = join(baseWebUICacheDir, coreVersion, baseLibName);
+  return existsSync(libPath, { isFile: true }) ? libPath : undefined;
+}
+
+/**
+ * Ensures the correct WebUI native library exists in the versioned cache, downloading it if necessary.
+ * The library is found with `findWebUiLib()`, or downloaded into the cache
+ * and recorded in `webui.lock.json`. A nightly archive is only accepted if it
+ * matches the `WEBUI_LIB_SHA256` environment variable.
+ * @param {string} baseLibName - The OS-specific library filename (e.g., "webui-2.dll").
+ * @returns {Promise<string>} The full path to the cached library file (e.g., ~/.cache/deno_webui/2.5.0-beta.3/webui-2.dll).
+ */
+export async function ensureWebUiLib(baseLibName: string): Promise<string> {
+  return findWebUiLib(baseLibName) ??
+    await fetchWebUiLib(
+      getCoreVersion(),
+      hostTarget(),
+      Deno.env.get("WEBUI_LIB_SHA256"),
+    );
+}
+
 // --- String Conversions (Keep as they are useful) ---
 
 /**
@@ -280,8 +699,6 @@ export function fromCString(value: Uint8Array): string {
   return new TextDecoder().decode(value.slice(0, end));
 }
 
-export class WebUIError extends Error {}
-
 async function getlLastModifedNightlyDateAsHash() {
   // it doesn't matter that we're using a specific build, its just to determine last modificaiton date
   const url =
@@ -0,0 +1,167 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { join } from "@std/path";
+import { BlobWriter, TextReader, ZipWriter } from "@zip-js/zip-js";
+import { checksums } from "./checksums.ts";
+import { IntegrityError } from "./errors.ts";
+import {
+  archiveName,
+  expectedArchiveDigest,
+  fetchWebUiLib,
+  findWebUiLib,
+  getBaseWebUICacheDir,
+  getCoreVersion,
+  hostTarget,
+  libFileName,
+  readLockFile,
+  sha256,
+} from "./utils.ts";
+
+const cacheEnv = ["XDG_CACHE_HOME", "HOME", "LOCALAPPDATA"];
+const resolutionEnv = [...cacheEnv, "WEBUI_CORE_VERSION", "WEBUI_LIB_PATH"];
+
+/**
+ * Run `fn` with the cache in an empty temporary directory, `fetch` replaced
+ * and the resolution environment variables restored afterwards.
+ */
+async function withCache(
+  fetchStub: (url: string) => Promise<Response>,
+  fn: (cacheDir: string, fetched: string[]) => Promise<void>,
+) {
+  const saved = resolutionEnv.map((name) => [name, Deno.env.get(name)]);
+  const realFetch = globalThis.fetch;
+  const dir = await Deno.makeTempDir();
+  const fetched: string[] = [];
+  try {
+    for (const name of cacheEnv) Deno.env.set(name, dir);
+    Deno.env.delete("WEBUI_LIB_PATH");
+    globalThis.fetch = (input) => {
+      fetched.push(String(input));
+      return fetchStub(String(input));
+    };
+    await fn(await getBaseWebUICacheDir(), fetched);
+  } finally {
+    globalThis.fetch = realFetch;
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name!);
+      else Deno.env.set(name!, value);
+    }
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+/** A release archive of the current platform holding `content`. */
+async function hostArchive(content: string): Promise<Uint8Array<ArrayBuffer>> {
+  const target = hostTarget();
+  const dirName = archiveName(target).replace(/\.zip$/, "");
+  const writer = new ZipWriter(new BlobWriter());
+  await writer.add(
+    `${dirName}/${libFileName(target.os)}`,
+    new TextReader(content),
+  );
+  return new Uint8Array(await (await writer.close()).arrayBuffer());
+}
+
+Deno.test("expectedArchiveDigest() requires a known digest", () => {
+  assertThrows(
+    () => expectedArchiveDigest("0.0.0-unpinned", "webui-linux-gcc-x64.zip"),
+    IntegrityError,
+  );
+  assertThrows(
+    () => expectedArchiveDigest("nightly-abc", "webui-linux-gcc-x64.zip"),
+    IntegrityError,
+  );
+  assertEquals(
+    expectedArchiveDigest("nightly-abc", "webui-linux-gcc-x64.zip", " AB12 "),
+    "ab12",
+  );
+});
+
+Deno.test("fetchWebUiLib() rejects unpinned releases before downloading", async () => {
+  await withCache(
+    () => Promise.resolve(new Response("unexpected")),
+    async (_, fetched) => {
+      await assertRejects(
+        () => fetchWebUiLib("0.0.0-unpinned"),
+        IntegrityError,
+      );
+      assertEquals(fetched, []);
+    },
+  );
+});
+
+Deno.test("fetchWebUiLib() verifies, extracts and locks a pinned release", async () => {
+  const archive = await hostArchive("library");
+  const zipFileName = archiveName(hostTarget());
+  checksums["0.0.0-test"] = { [zipFileName]: await sha256(archive) };
+  checksums["0.0.0-tampered"] = { [zipFileName]: "0".repeat(64) };
+  try {
+    await withCache(
+      () => Promise.resolve(new Response(archive)),
+      async (cacheDir, fetched) => {
+        const libPath = await fetchWebUiLib("0.0.0-test");
+        assertEquals(
+          libPath,
+          join(cacheDir, "0.0.0-test", libFileName(hostTarget().os)),
+        );
+        assertEquals(await Deno.readTextFile(libPath), "library");
+        assertEquals(fetched.length, 1);
+
+        const lock = await readLockFile(cacheDir);
+        assertEquals(Object.values(lock).map((entry) => entry.coreVersion), [
+          "0.0.0-test",
+        ]);
+
+        // Cached now, resolved without network or writes
+        Deno.env.set("WEBUI_CORE_VERSION", "0.0.0-test");
+        assertEquals(findWebUiLib(libFileName(hostTarget().os)), libPath);
+        assertEquals(await fetchWebUiLib("0.0.0-test"), libPath);
+        assertEquals(fetched.length, 1);
+
+        await assertRejects(
+          () => fetchWebUiLib("0.0.0-tampered"),
+          IntegrityError,
+        );
+      },
+    );
+  } finally {
+    delete checksums["0.0.0-test"];
+    delete checksums["0.0.0-tampered"];
+  }
+});
+
+Deno.test("findWebUiLib() prefers WEBUI_LIB_PATH", async () => {
+  await withCache(
+    () => Promise.resolve(new Response("unexpected")),
+    async (cacheDir) => {
+      const baseLibName = libFileName(hostTarget().os);
+      Deno.env.set("WEBUI_CORE_VERSION", "0.0.0-missing");
+      assertEquals(findWebUiLib(baseLibName), undefined);
+
+      const libPath = join(cacheDir, "vendor.lib");
+      await Deno.writeTextFile(libPath, "library");
+      Deno.env.set("WEBUI_LIB_PATH", libPath);
+      assertEquals(findWebUiLib(baseLibName), libPath);
+
+      Deno.env.set("WEBUI_LIB_PATH", join(cacheDir, "missing.lib"));
+      assertThrows(() => findWebUiLib(baseLibName), Error, "not a file");
+    },
+  );
+});
+
+Deno.test("getCoreVersion() reads webui.json", async () => {
+  const saved = Deno.env.get("WEBUI_CORE_VERSION");
+  const cwd = Deno.cwd();
+  const dir = await Deno.makeTempDir();
+  try {
+    Deno.env.delete("WEBUI_CORE_VERSION");
+    Deno.chdir(dir);
+    await Deno.writeTextFile("webui.json", '{ "coreVersion": "nightly" }');
+    assertEquals(getCoreVersion(), "nightly");
+    await Deno.writeTextFile("webui.json", "{ coreVersion: nightly }");
+    assertThrows(() => getCoreVersion(), Error, "Invalid webui.json");
+  } finally {
+    Deno.chdir(cwd);
+    if (saved !== undefined) Deno.env.set("WEBUI_CORE_VERSION", saved);
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -8,15 +8,59 @@
   Canada.
 */
 
+import { findLibPath, resolveLibPath } from "../deps.ts";
 import { loadLib } from "./lib.ts";
 import type {
   BindCallback,
   Datatypes,
+  ExposedFunction,
+  LogHandler,
+  LogTarget,
+  Middleware,
+  RequestHandler,
   Usize,
   WebUIEvent,
+  WebUIEventMap,
   WebUILib,
 } from "./types.ts";
-import { fromCString, toCString, WebUIError } from "./utils.ts";
+import { fromCString, toCString } from "./utils.ts";
+import {
+  ConnectionTimeoutError,
+  launchError,
+  nativeError,
+  ScriptTimeoutError,
+  serverError,
+  TlsError,
+  WebUIError,
+} from "./errors.ts";
+import { decode, encode, encodeError, EXPOSE_PREFIX } from "./rpc.ts";
+import { WebUIClient, WebUIClients } from "./client.ts";
+import { Emitter, type Listener } from "./events.ts";
+import { injectHead, serializeResponse, toRequest } from "./http.ts";
+import { compose } from "./middleware.ts";
+import { proxy, type ProxyOptions } from "./proxy.ts";
+import {
+  type DevOptions,
+  type DevWatcher,
+  reloadScript,
+  watch,
+} from "./dev.ts";
+import {
+  readZip,
+  serveMemory,
+  serveStatic,
+  type ServeStaticOptions,
+} from "./static.ts";
+import { OutgoingStream, STREAM_ACK, STREAM_RECEIVER } from "./stream.ts";
+import {
+  apiClientModule,
+  BRIDGE_ID,
+  bridgeScript,
+  bridgeStubScript,
+  scriptResultDrop,
+  scriptResultPart,
+  scriptResultWrapper,
+} from "./bridge.ts";
 import metadata from "../deno.json" with { type: "json" };
 
 // Register windows to bind instance to WebUI.Event
@@ -24,6 +68,16 @@ const windows: Map<Usize, WebUI> = new Map();
 
 // Global lib entry
 let _lib: WebUILib;
+// The library path being resolved by `WebUI.init()`
+let _libPath: Promise<string> | undefined;
+
+// Native logger callback, kept alive while registered
+const loggerDefinition = {
+  // void (*func)(size_t level, const char* log, void* user_data)
+  parameters: ["usize", "pointer", "pointer"],
+  result: "void",
+} as const;
+let _logger: Deno.UnsafeCallback<typeof loggerDefinition> | undefined;
 
 /**
  * Represents a WebUI window instance. Allows interaction with a web browser
@@ -33,19 +87,52 @@ let _lib: WebUILib;
 export class WebUI {
   #window: Usize = 0;
   #lib: WebUILib;
-  #isFileHandler: boolean = false;
+  #hasEventHub: boolean = false;
+  #hasBridge: boolean = false;
+  #bindAll: BindCallback<Datatypes | undefined | void> | undefined;
+  #bound: Set<string> = new Set();
+  #exposed: Set<string> = new Set();
+  #hasFileHandler: boolean = false;
+  #fileHandler:
+    | ((url: URL, window: WebUI) => Promise<string | Uint8Array>)
+    | undefined;
+  #requestHandler: RequestHandler | undefined;
+  #virtualFileSystem: RequestHandler | undefined;
+  #proxy: RequestHandler | undefined;
+  #middlewares: Middleware[] = [];
+  #virtualFiles: Map<string, Uint8Array> = new Map();
+  #hasStreamAck: boolean = false;
+  #nextStreamId: number = 0;
+  #streams: Map<number, OutgoingStream> = new Map();
+  #clients: WebUIClients = new WebUIClients();
+  #events: Emitter<WebUIEventMap> = new Emitter();
+
+  /**
+   * Called when a bound or exposed callback throws. The error is still sent
+   * to the UI, where the pending promise rejects with the same `name`,
+   * `message` and `code`. Defaults to logging with `console.error`.
+   *
+   * @example
+   * ```ts
+   * myWindow.onError = (error, e) => {
+   *   console.error(`"${e.element}" failed:`, error);
+   * };
+   * ```
+   */
+  onError: ((error: unknown, event: WebUIEvent) => void) | undefined;
 
   /**
    * Instanciate a new WebUI window.
    * @returns Window id.
-   * @throws {WebUIError} - If optional local lib not found.
+   * @throws {WebUIError} - If optional local lib not found, or if the library
+   * isn't in the cache yet and `WebUI.init()` wasn't awaited.
    * @example
    * ```ts
    * const myWindow1 = new WebUI()
    * ```
    */
   constructor() {
-    WebUI.init(); // Init lib if not already initialized
+    WebUI.load(); // Init lib if not already initialized
     this.#lib = _lib;
     this.#window = _lib.symbols.webui_new_window();
     windows.set(BigInt(this.#window), this);
@@ -75,7 +162,7 @@ export class WebUI {
       toCString(rootFolder),
     );
     if (!status) {
-      throw new WebUIError(`unable to set root folder`);
+      throw nativeError(this.#lib, WebUIError, `unable to set root folder`);
     }
   }
 
@@ -83,7 +170,14 @@ export class WebUI {
    * Show the window or update the UI with the new content.
    * @returns Promise that resolves when the client bridge is linked.
    * @param {string} content - Valid html content or same root file path.
-   * @throws {WebUIError} - If lib return false status.
+   * @param options - connection timeout in seconds (0 means no timeout),
+   * an optional `AbortSignal`, and the browser to use,
+   * default is `{ timeout: 30, browser: WebUI.Browser.AnyBrowser }`.
+   * @throws {BrowserNotFoundError} - If the browser isn't installed.
+   * @throws {PortInUseError} - If the server can't listen on its port.
+   * @throws {BrowserLaunchError} - If the browser can't be started.
+   * @throws {ConnectionTimeoutError} - If the browser doesn't connect within
+   * `timeout`.
    * @example
    * ```ts
    * const myWindow = new WebUI()
@@ -96,31 +190,96 @@ export class WebUI {
    *
    * // Await to ensure WebUI.script and WebUI.run can send datas to the client
    * console.assert(myWindow.isShown, true)
+   *
+   * // Wait longer on slow machines, with a specific browser
+   * await myWindow.show('index.html', {
+   *   timeout: 120,
+   *   browser: WebUI.Browser.Firefox,
+   * })
    * ```
    * @note this function blocks on macos
    */
-  async show(content: string) {
-    const status = await this.#lib.symbols.webui_show(
-      BigInt(this.#window),
-      toCString(content),
-    );
-    if (!this.#isFileHandler) {
+  async show(
+    content: string,
+    options?: {
+      timeout?: number;
+      signal?: AbortSignal;
+      browser?: WebUI.Browser;
+    },
+  ) {
+    const timeout = options?.timeout ?? 30;
+    const signal = options?.signal;
+    signal?.throwIfAborted();
+
+    // Listen before showing, the connection can come first. Without the
+    // all-events binding, poll instead of sending every click to Deno.
+    const stop = new AbortController();
+    const connected = this.#hasEventHub
+      ? this.#events.once("connected", stop.signal)
+      : this.#pollShown(stop.signal);
+    connected.catch(() => {});
+    const page = /<html[\s>]/i.test(content)
+      ? this.#injectStubs(content)
+      : content;
+
+    try {
+      const restore = this.#configureShow();
+      let status: boolean;
+      try {
+        status = options?.browser === undefined
+          ? await this.#lib.symbols.webui_show(
+            BigInt(this.#window),
+            toCString(page),
+          )
+          : await this.#lib.symbols.webui_show_browser(
+            BigInt(this.#window),
+            toCString(page),
+            BigInt(options.browser),
+          );
+      } finally {
+        restore();
+      }
       // Check if window is lanched
       if (!status) {
-        throw new WebUIError(`unable to start the browser`);
+        throw launchError(
+          this.#lib,
+          options?.browser ?? WebUI.Browser.AnyBrowser,
+        );
       }
+      // The signal may have aborted while launching
+      signal?.throwIfAborted();
+      // Already connected when updating the content
+      if (this.isShown) return;
+
       // Wait for window connection
-      for (let i = 0; i < 120; i++) { // 30 seconds timeout
-        if (!this.isShown) {
-          await new Promise((resolve) => setTimeout(resolve, 250));
-        } else {
-          break;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const failures = new Promise<never>((_, reject) => {
+        if (timeout > 0) {
+          timer = setTimeout(
+            () =>
+              reject(
+                new ConnectionTimeoutError(
+                  `unable to connect to the browser within ${timeout}s`,
+                ),
+              ),
+            timeout * 1000,
+          );
         }
+        signal?.addEventListener("abort", () => reject(signal.reason), {
+          signal: stop.signal,
+        });
+      });
+      try {
+        await Promise.race([connected, failures]);
+      } finally {
+        clearTimeout(timer);
       }
-      // Check if window is connected
-      if (!this.isShown) {
-        throw new WebUIError(`unable to connect to the browser`);
+      // Without the event hub, nothing sent the bridge on connection
+      if (!this.#hasEventHub && this.#hasBridge) {
+        this.run(this.#bridgeScript());
       }
+    } finally {
+      stop.abort();
     }
   }
 
@@ -129,7 +288,13 @@ export class WebUI {
    * @returns Promise that resolves when the client bridge is linked.
    * @param {string} content - valid html content or same root file path.
    * @param {number} browser - Browser to use.
-   * @throws {WebUIError} - If lib return false status.
+   * @param options - connection timeout in seconds (0 means no timeout) and
+   * an optional `AbortSignal`, default is `{ timeout: 30 }`.
+   * @throws {BrowserNotFoundError} - If the browser isn't installed.
+   * @throws {PortInUseError} - If the server can't listen on its port.
+   * @throws {BrowserLaunchError} - If the browser can't be started.
+   * @throws {ConnectionTimeoutError} - If the browser doesn't connect within
+   * `timeout`.
    * @example
    *  ```ts
    * const myWindow = new WebUI()
@@ -148,27 +313,40 @@ export class WebUI {
   async showBrowser(
     content: string,
     browser: WebUI.Browser,
+    options?: {
+      timeout?: number;
+      signal?: AbortSignal;
+    },
   ) {
-    const status = await this.#lib.symbols.webui_show_browser(
-      BigInt(this.#window),
-      toCString(content),
-      BigInt(browser),
-    );
-    if (!status) {
-      throw new WebUIError(`unable to start the browser`);
-    }
-
-    for (let i = 0; i < 120; i++) { // 30 seconds timeout
-      if (!this.isShown) {
-        await new Promise((resolve) => setTimeout(resolve, 250));
-      } else {
-        break;
-      }
-    }
+    await this.show(content, { ...options, browser });
+  }
 
-    if (!this.isShown) {
-      throw new WebUIError(`unable to connect to the browser`);
-    }
+  /**
+   * The clients connected to this window. Clients are tracked from the
+   * first access, so read it before `show()`. Use this API when using
+   * `setMultiClient(true)`.
+   * @example
+   * ```ts
+   * WebUI.setMultiClient(true);
+   * const myWindow = new WebUI();
+   *
+   * myWindow.clients.on("connect", (client) => {
+   *   client.data.user = "guest";
+   *   console.log(`client ${client.id} connected, ${myWindow.clients.size} total`);
+   * });
+   * myWindow.clients.on("disconnect", (client) => {
+   *   console.log(`client ${client.id} left`);
+   * });
+   *
+   * await myWindow.show("index.html");
+   *
+   * // Broadcast to every guest
+   * myWindow.clients.run('refresh()', (client) => client.data.user === "guest");
+   * ```
+   */
+  get clients(): WebUIClients {
+    this.#ensureEventHub();
+    return this.#clients;
   }
 
   /**
@@ -251,15 +429,27 @@ export class WebUI {
 
   /**
    * Execute a JavaScript string in the UI and returns a boolean indicating whether the
-   * script execution was successful.
+   * script execution was successful. The call doesn't block the Deno event loop.
+   * Results of any size are returned in full: a result larger than
+   * `bufferSize` is read back in several parts.
    * @param {string} script - js code to execute.
-   * @param options - response timeout (0 means no timeout), bufferSize,
+   * @param options - response timeout in seconds (0 means no timeout), bufferSize
+   * in bytes of each read, and an optional `AbortSignal`,
    * default is `{ timeout: 0, bufferSize: 1024 * 1000 }`.
    * @returns Promise that resolve or reject the client response.
+   * @throws {ScriptTimeoutError} - If the UI doesn't respond within `timeout`.
+   * @throws {WebUIError} - If the result can't be delivered in full.
    * @example
    * ```ts
    * const response = await myWindow.script('return 6 + 4;').catch(console.error)
    * // response == "10"
+   *
+   * // Give up after 5 seconds, or when the user cancels
+   * const controller = new AbortController();
+   * await myWindow.script('return heavyWork();', {
+   *   timeout: 5,
+   *   signal: controller.signal,
+   * });
    * ```
    */
   script(
@@ -267,42 +457,34 @@ export class WebUI {
     options?: {
       timeout?: number;
       bufferSize?: number;
+      signal?: AbortSignal;
     },
   ): Promise<string> {
-    // Response Buffer
-    const bufferSize =
-      (options?.bufferSize !== undefined && options.bufferSize > 0)
-        ? options.bufferSize
-        : 1024 * 1000;
-    const buffer = new Uint8Array(bufferSize);
-    const timeout = options?.timeout ?? 0;
-
-    // Execute the script
-    const status = this.#lib.symbols.webui_script(
-      BigInt(this.#window),
-      toCString(script),
-      BigInt(timeout),
-      buffer,
-      BigInt(bufferSize),
+    return this.#script(
+      options,
+      script,
+      (script, timeout, buffer) =>
+        this.#lib.symbols.webui_script(
+          BigInt(this.#window),
+          toCString(script),
+          BigInt(timeout),
+          buffer,
+          BigInt(buffer.byteLength),
+        ),
+      (script) => this.run(script),
     );
-
-    const response = fromCString(buffer);
-
-    // TODO:
-    // Call symbol asynchronously
-    if (status) {
-      return Promise.resolve(response);
-    }
-    return Promise.reject(response);
   }
 
   /**
    * Same as `.script()`, but for one specific client. Use this API when using `setMultiClient(true)`.
    * @param {WebUIEvent} e - event.
    * @param {string} script - js code to execute.
-   * @param options - response timeout (0 means no timeout), bufferSize,
+   * @param options - response timeout in seconds (0 means no timeout), bufferSize
+   * in bytes of each read, and an optional `AbortSignal`,
    * default is `{ timeout: 0, bufferSize: 1024 * 1000 }`.
    * @returns Promise that resolve or reject the client response.
+   * @throws {ScriptTimeoutError} - If the UI doesn't respond within `timeout`.
+   * @throws {WebUIError} - If the result can't be delivered in full.
    * @example
    * ```ts
    * setMultiClient(true);
@@ -318,34 +500,159 @@ export class WebUI {
     options?: {
       timeout?: number;
       bufferSize?: number;
+      signal?: AbortSignal;
     },
+  ): Promise<string> {
+    return this.#script(
+      options,
+      script,
+      (script, timeout, buffer) =>
+        this.#lib.symbols.webui_interface_script_client(
+          BigInt(this.#window),
+          BigInt(e.eventNumber),
+          toCString(script),
+          BigInt(timeout),
+          buffer,
+          BigInt(buffer.byteLength),
+        ),
+      (script) => this.runClient(e, script),
+    );
+  }
+
+  /**
+   * Run a script through a nonblocking script symbol and settle with the
+   * full client response. Results larger than the response buffer are kept
+   * in the page and read back in parts that fit the buffer, and dropped
+   * with `drop` if a read fails.
+   */
+  async #script(
+    options: {
+      timeout?: number;
+      bufferSize?: number;
+      signal?: AbortSignal;
+    } | undefined,
+    script: string,
+    call: (
+      script: string,
+      timeout: number,
+      buffer: Uint8Array<ArrayBuffer>,
+    ) => Promise<boolean>,
+    drop: (script: string) => void,
   ): Promise<string> {
     // Response Buffer
     const bufferSize =
       (options?.bufferSize !== undefined && options.bufferSize > 0)
         ? options.bufferSize
         : 1024 * 1000;
-    const buffer = new Uint8Array(bufferSize);
+    // Room for one UTF-16 code unit (3 UTF-8 bytes) and the length prefix
+    if (bufferSize < 16) {
+      throw new WebUIError(`bufferSize must be at least 16 bytes`);
+    }
     const timeout = options?.timeout ?? 0;
+    const signal = options?.signal;
+    const run = (script: string) =>
+      this.#scriptOnce(call, script, timeout, bufferSize, signal);
+
+    const id = crypto.randomUUID();
+    const head = await run(scriptResultWrapper(script, id, bufferSize));
+    if (head.startsWith("0")) {
+      return head.slice(1);
+    }
 
-    // Execute the script
-    const status = this.#lib.symbols.webui_interface_script_client(
-      BigInt(this.#window),
-      BigInt(e.eventNumber),
-      toCString(script),
-      BigInt(timeout),
-      buffer,
-      BigInt(bufferSize),
-    );
-
-    const response = fromCString(buffer);
+    // A UTF-16 code unit takes at most 3 bytes in UTF-8
+    const length = Number(head.slice(1));
+    const units = Math.floor((bufferSize - 1) / 3);
+    let response = "";
+    try {
+      while (response.length < length) {
+        const part = await run(scriptResultPart(id, response.length, units));
+        if (part.length === 0) break;
+        response += part;
+      }
+    } catch (error) {
+      // Don't leave the rest of the result in the page
+      drop(scriptResultDrop(id));
+      throw error;
+    }
+    if (response.length !== length) {
+      throw new WebUIError(
+        `script result truncated: received ${response.length} of ${length} characters`,
+      );
+    }
+    return response;
+  }
 
-    // TODO:
-    // Call symbol asynchronously
-    if (status) {
-      return Promise.resolve(response);
+  /**
+   * Run one nonblocking script call, honoring abort signals. An aborted call
+   * rejects right away, the native call finishes in the background and its
+   * response is dropped.
+   */
+  #scriptOnce(
+    call: (
+      script: string,
+      timeout: number,
+      buffer: Uint8Array<ArrayBuffer>,
+    ) => Promise<boolean>,
+    script: string,
+    timeout: number,
+    bufferSize: number,
+    signal: AbortSignal | undefined,
+  ): Promise<string> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
     }
-    return Promise.reject(response);
+    const buffer = new Uint8Array(bufferSize);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(signal!.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      // Execute the script
+      const start = Date.now();
+      call(script, timeout, buffer).then((status) => {
+        signal?.removeEventListener("abort", onAbort);
+        const response = fromCString(buffer);
+        if (status) {
+          resolve(response);
+        } else if (timeout > 0 && Date.now() - start >= timeout * 1000) {
+          reject(
+            new ScriptTimeoutError(
+              `no response from the UI after ${timeout} seconds`,
+            ),
+          );
+        } else {
+          reject(response);
+        }
+      }, reject);
+    });
+  }
+
+  /**
+   * Development mode: set the root folder, watch it, and update every
+   * connected client when files change. Stylesheet changes are swapped in
+   * place, other changes reload the page. Changes are batched, so saving
+   * several files at once reloads once.
+   *
+   * Don't combine with `WebUI.setFolderMonitor(true)`, which reloads on its
+   * own.
+   *
+   * @param options - `root` folder (working directory), `debounce` delay in
+   * milliseconds (`100`), `filter` on the changed paths, `signal` to stop.
+   * @returns The watcher, `close()` it to stop.
+   * @example
+   * ```ts
+   * if (Deno.env.get("DEV")) {
+   *   myWindow.dev({ root: "./ui", filter: (path) => !path.endsWith(".map") });
+   * }
+   * await myWindow.show("index.html");
+   * ```
+   */
+  dev(options: DevOptions = {}): DevWatcher {
+    const root = options.root ?? Deno.cwd();
+    this.setRootFolder(root);
+    return watch(root, options, (paths) => {
+      if (this.isShown) this.run(reloadScript(paths));
+    });
   }
 
   /**
@@ -364,9 +671,95 @@ export class WebUI {
     );
   }
 
+  /**
+   * Same as `.run()`, but for one specific client. Use this API when using `setMultiClient(true)`.
+   * @param {WebUIEvent} e - event.
+   * @param {string} script - js code to execute.
+   * @example
+   * ```ts
+   * myWindow.bind('myBackend', (e: WebUI.Event) => {
+   *   myWindow.runClient(e, 'alert("Only you see this")');
+   * });
+   * ```
+   */
+  runClient(e: WebUIEvent, script: string): void {
+    this.#lib.symbols.webui_interface_run_client(
+      BigInt(this.#window),
+      BigInt(e.eventNumber),
+      toCString(script),
+    );
+  }
+
+  /**
+   * Same as `.navigate()`, but for one specific client. Use this API when using `setMultiClient(true)`.
+   * @param {WebUIEvent} e - event.
+   * @param {string} url - The URL to navigate to.
+   */
+  navigateClient(e: WebUIEvent, url: string): void {
+    this.#lib.symbols.webui_interface_navigate_client(
+      BigInt(this.#window),
+      BigInt(e.eventNumber),
+      toCString(url),
+    );
+  }
+
+  /**
+   * Same as `.close()`, but for one specific client. Use this API when using `setMultiClient(true)`.
+   * @param {WebUIEvent} e - event.
+   */
+  closeClient(e: WebUIEvent): void {
+    this.#lib.symbols.webui_interface_close_client(
+      BigInt(this.#window),
+      BigInt(e.eventNumber),
+    );
+  }
+
+  /**
+   * Same as `.show()`, but for one specific client. Use this API when using `setMultiClient(true)`.
+   * @param {WebUIEvent} e - event.
+   * @param {string} content - Valid html content or same root file path.
+   * @returns True if the content was sent.
+   */
+  showClient(e: WebUIEvent, content: string): boolean {
+    return this.#lib.symbols.webui_interface_show_client(
+      BigInt(this.#window),
+      BigInt(e.eventNumber),
+      toCString(content),
+    );
+  }
+
+  /**
+   * Same as `.sendRaw()`, but for one specific client. Use this API when using `setMultiClient(true)`.
+   * @param {WebUIEvent} e - event.
+   * @param functionName - The name of the function to send data to.
+   * @param raw - The raw data to send.
+   */
+  sendRawClient(
+    e: WebUIEvent,
+    functionName: string,
+    raw: Uint8Array<ArrayBuffer>,
+  ): void {
+    this.#lib.symbols.webui_interface_send_raw_client(
+      BigInt(this.#window),
+      BigInt(e.eventNumber),
+      toCString(functionName),
+      raw,
+      BigInt(raw.length),
+    );
+  }
+
   /**
    * Bind a callback function to a an HTML element
    *
+   * If the callback throws, the promise returned to the UI rejects with an
+   * `Error` carrying the same `name`, `message` and `code`, and the error is
+   * passed to `onError`.
+   *
+   * Rejections need the browser bridge. Pages shown as HTML content or served
+   * by a request handler ask for it on their own, other pages get it when
+   * `show()` connects, or on every connection once the window has a
+   * `connected` listener.
+   *
    * @param {string} id - DOM element id. Blank string bind to all DOM elements.
    * @param callback - The callback function.
    *
@@ -391,58 +784,346 @@ export class WebUI {
    *    const myArg2 = e.arg.number(1); // 123456
    *    return "backend response";
    * });
+   *
+   * // UI: upload(new Uint8Array(await file.arrayBuffer()))
+   * myWindow.bind('upload', async (e: WebUI.Event) => {
+   *    const data = e.arg.bytes(0); // Uint8Array, e.arg.size(0) bytes
+   *    await Deno.writeFile("upload.bin", data);
+   * });
    * ```
    */
   bind<T extends Datatypes | undefined | void>(
     id: string,
     callback: BindCallback<T>,
+  ) {
+    if (id === "") {
+      // The all-events binding is shared with the window's own listeners
+      this.#bindAll = callback;
+      this.#ensureEventHub();
+      return;
+    }
+    this.#bound.add(id);
+    this.#ensureBridge();
+    this.#bindCallback(id, callback);
+    if (this.isShown) {
+      this.run(bridgeScript({ bound: [id], exposed: [] }));
+    }
+  }
+
+  /**
+   * Add a listener for a window event. Several listeners can be added for
+   * the same event, unlike `bind("")`.
+   *
+   * @param type - `connected`, `disconnected`, `click` or `navigate`.
+   * @param listener - Called with the event.
+   * @example
+   * ```ts
+   * myWindow.on("navigate", (e) => console.log(`Navigated to ${e.url}`));
+   * myWindow.on("click", (e) => console.log(`${e.element} was clicked`));
+   * ```
+   */
+  on<K extends keyof WebUIEventMap>(
+    type: K,
+    listener: Listener<WebUIEventMap[K]>,
+  ): void {
+    this.#ensureEventHub();
+    this.#events.on(type, listener);
+  }
+
+  /**
+   * Remove a listener added with `on()`.
+   *
+   * @param type - The event name.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof WebUIEventMap>(
+    type: K,
+    listener: Listener<WebUIEventMap[K]>,
+  ): void {
+    this.#events.off(type, listener);
+  }
+
+  /**
+   * Wait for the next occurrence of a window event.
+   *
+   * @param type - The event name.
+   * @param options - Optional `AbortSignal` to stop waiting.
+   * @returns Promise that resolves with the event.
+   * @example
+   * ```ts
+   * const connected = myWindow.once("connected");
+   * myWindow.show("index.html");
+   * const e = await connected;
+   * ```
+   */
+  once<K extends keyof WebUIEventMap>(
+    type: K,
+    options?: { signal?: AbortSignal },
+  ): Promise<WebUIEventMap[K]> {
+    this.#ensureEventHub();
+    return this.#events.once(type, options?.signal);
+  }
+
+  /**
+   * Expose a backend function to the UI. Unlike `bind()`, arguments and
+   * return values can be any JSON-serializable value (objects, arrays,
+   * `null`, `Date`, `bigint`). If the function throws, the UI promise
+   * rejects with an `Error` carrying the same `name`, `message` and `code`.
+   *
+   * The global is created when the page connects. Pages shown as HTML
+   * content or served by a request handler get it from the start, and calls
+   * wait for the connection. Other pages can import the `exposeApi()` module.
+   *
+   * @param {string} name - Name of the global function created in the UI.
+   * @param fn - The backend function.
+   *
+   * @example
+   * ```ts
+   * const myWindow = new WebUI();
+   *
+   * myWindow.expose("getUser", async (id: number) => {
+   *   return { id, name: "Foo", createdAt: new Date() };
+   * });
+   *
+   * await myWindow.show(
+   *  `<html>
+   *    <script src="webui.js"></script>
+   *    <button OnClick="getUser(1).then(user => alert(user.name))">Get</button>
+   *  </html>`
+   * )
+   * ```
+   */
+  expose<F extends ExposedFunction>(name: string, fn: F) {
+    this.#exposed.add(name);
+    this.#ensureBridge();
+    this.#bindCallback(EXPOSE_PREFIX + name, async (e: WebUIEvent) => {
+      // The bridge sends all arguments as one encoded array
+      const args = decode(e.arg.string(0));
+      const result = await fn(
+        ...(Array.isArray(args) ? args : []) as never[],
+      );
+      return encode(result);
+    });
+    // Clients already connected won't see the next `Connected` event
+    if (this.isShown) {
+      this.run(bridgeScript({ bound: [], exposed: [name] }));
+    }
+  }
+
+  /**
+   * Expose every function of a backend API object with `expose()`, and serve
+   * a generated ES module exporting a matching client at `options.path`
+   * (default `/webui-api.js`). Type the frontend import with
+   * `ApiClient<typeof api>` to get compile-time checking of every call.
+   *
+   * @param api - Map of function names to backend functions.
+   * @param options - Path of the generated module,
+   * default is `{ path: "/webui-api.js" }`.
+   *
+   * @example
+   * ```ts
+   * // api.ts (backend)
+   * export const api = {
+   *   add: (a: number, b: number) => a + b,
+   *   getUser: async (id: number) => ({ id, name: "Foo" }),
+   * };
+   * myWindow.exposeApi(api);
+   *
+   * // main.ts (frontend)
+   * import type { ApiClient } from "@webui/deno-webui";
+   * import type { api } from "../backend/api.ts";
+   * import backend from "/webui-api.js";
+   *
+   * const client = backend as ApiClient<typeof api>;
+   * const sum: number = await client.add(1, 2);
+   * ```
+   */
+  exposeApi<T extends Record<string, ExposedFunction>>(
+    api: T,
+    options?: {
+      path?: string;
+    },
+  ) {
+    const names = Object.keys(api);
+    for (const name of names) {
+      this.expose(name, api[name].bind(api));
+    }
+    this.#serveVirtualFile(
+      options?.path ?? "/webui-api.js",
+      "application/javascript",
+      apiClientModule(names),
+    );
+  }
+
+  /**
+   * Bind the id answering the page stubs with the browser bridge, once.
+   * Unlike the event hub, it doesn't send every click to Deno.
+   */
+  #ensureBridge() {
+    if (this.#hasBridge) return;
+    this.#hasBridge = true;
+    this.#bindCallback(BRIDGE_ID, () => this.#bridgeScript());
+  }
+
+  /**
+   * The script installing the browser bridge with every bound and exposed
+   * function.
+   */
+  #bridgeScript(): string {
+    return bridgeScript({
+      bound: [...this.#bound],
+      exposed: [...this.#exposed],
+    });
+  }
+
+  /**
+   * Bind the window-wide (blank id) callback once. It installs the browser
+   * bridge on every new connection, then forwards to the user `bind("")`.
+   */
+  #ensureEventHub() {
+    if (this.#hasEventHub) return;
+    this.#hasEventHub = true;
+    this.#bindCallback("", async (e: WebUIEvent) => {
+      if (e.eventType === WebUI.EventType.Connected) {
+        this.#clients.add(e.client);
+        this.#lib.symbols.webui_interface_run_client(
+          BigInt(this.#window),
+          BigInt(e.eventNumber),
+          toCString(this.#bridgeScript()),
+        );
+        this.#events.emit("connected", e);
+      } else if (e.eventType === WebUI.EventType.Disconnected) {
+        this.#clients.delete(e.client.id);
+        this.#events.emit("disconnected", e);
+        if (!this.isShown) {
+          for (const stream of this.#streams.values()) {
+            stream.fail(
+              new WebUIError(`stream closed: the window is no longer shown`),
+            );
+          }
+          this.#streams.clear();
+        }
+      } else if (e.eventType === WebUI.EventType.MouseClick) {
+        this.#events.emit("click", e);
+      } else if (e.eventType === WebUI.EventType.Navigation) {
+        this.#events.emit("navigate", { ...e, url: e.arg.string(0) });
+      }
+      return await this.#bindAll?.(e);
+    });
+  }
+
+  /**
+   * Wait until the window is shown, checking every 25ms.
+   */
+  async #pollShown(signal: AbortSignal): Promise<void> {
+    while (!this.isShown) {
+      signal.throwIfAborted();
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+  }
+
+  /**
+   * Add the bridge stubs to an HTML page, so its bound and exposed globals
+   * wait for the bridge instead of calling the backend unencoded.
+   */
+  #injectStubs(html: string): string {
+    if (this.#bound.size === 0 && this.#exposed.size === 0) return html;
+    const stubs = bridgeStubScript({
+      bound: [...this.#bound],
+      exposed: [...this.#exposed],
+    });
+    return injectHead(html, `<script>${stubs}</script>`);
+  }
+
+  /**
+   * Add the bridge stubs to an HTML response, see `#injectStubs()`.
+   */
+  async #withStubs(response: Response): Promise<Response> {
+    if (
+      response.status !== 200 ||
+      response.headers.has("Content-Encoding") ||
+      !response.headers.get("Content-Type")?.startsWith("text/html") ||
+      (this.#bound.size === 0 && this.#exposed.size === 0)
+    ) {
+      return response;
+    }
+    const headers = new Headers(response.headers);
+    headers.delete("ETag");
+    return new Response(this.#injectStubs(await response.text()), {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  /**
+   * Pass a callback error to `onError`, or log it.
+   */
+  #reportError(error: unknown, e: WebUIEvent) {
+    if (this.onError === undefined) {
+      console.error(error);
+      return;
+    }
+    try {
+      this.onError(error, e);
+    } catch (hookError) {
+      console.error(hookError);
+    }
+  }
+
+  /**
+   * Register a callback with WebUI through `webui_bind`.
+   */
+  #bindCallback<T extends Datatypes | undefined | void>(
+    id: string,
+    callback: BindCallback<T>,
   ) {
     // Create the callback
     const callbackResource = new Deno.UnsafeCallback(
       {
-        // size_t webui_interface_bind(..., void (*func)(size_t, size_t, char*, size_t, size_t))
-        // func = (Window, EventType, Element, EventNumber, BindID)
-        parameters: ["usize", "usize", "pointer", "usize", "usize"],
+        // size_t webui_bind(..., void (*func)(webui_event_t* e))
+        parameters: ["pointer"],
         result: "void",
       } as const,
-      async (
-        param_window: number | bigint,
-        param_event_type: number | bigint,
-        param_element: Deno.PointerValue,
-        param_event_number: number | bigint,
-        param_bind_id: number | bigint,
-      ) => {
-        // Create elements
-        const win = param_window;
-        const event_type = typeof param_event_type === "bigint"
-          ? Number(param_event_type)
-          : Math.trunc(param_event_type);
+      async (param_event: Deno.PointerValue) => {
+        // Read `webui_event_t`, only valid until the first `await`
+        // struct { size_t window; size_t event_type; char* element;
+        //          size_t event_number; size_t bind_id; size_t client_id; ... }
+        const event = new Deno.UnsafePointerView(param_event!);
+        const win = event.getBigUint64(0);
+        const event_type = Number(event.getBigUint64(8));
+        const param_element = event.getPointer(16);
         const element = param_element !== null
           ? new Deno.UnsafePointerView(param_element).getCString()
           : "";
-        const event_number = typeof param_event_number === "bigint"
-          ? Number(param_event_number)
-          : Math.trunc(param_event_number);
-        const _bind_id = typeof param_bind_id === "bigint"
-          ? Number(param_bind_id)
-          : Math.trunc(param_bind_id);
+        const event_number = Number(event.getBigUint64(24));
+        const client_id = Number(event.getBigUint64(40));
+        const count = Number(this.#lib.symbols.webui_get_count(param_event));
 
         // Set get argument methods
         const args = {
+          count,
           number: (index: number): number => {
             return Number(
               this.#lib.symbols.webui_interface_get_int_at(
-                BigInt(win),
+                win,
                 BigInt(event_number),
                 BigInt(index),
               ),
             );
           },
+          float: (index: number): number => {
+            return this.#lib.symbols.webui_interface_get_float_at(
+              win,
+              BigInt(event_number),
+              BigInt(index),
+            );
+          },
           string: (index: number): string => {
             return (
               new Deno.UnsafePointerView(
                 this.#lib.symbols.webui_interface_get_string_at(
-                  BigInt(win),
+                  win,
                   BigInt(event_number),
                   BigInt(index),
                 ) as Deno.PointerObject<unknown>,
@@ -451,11 +1132,35 @@ export class WebUI {
           },
           boolean: (index: number): boolean => {
             return this.#lib.symbols.webui_interface_get_bool_at(
-              BigInt(win),
+              win,
               BigInt(event_number),
               BigInt(index),
             ) as boolean;
           },
+          size: (index: number): number => {
+            return Number(
+              this.#lib.symbols.webui_interface_get_size_at(
+                win,
+                BigInt(event_number),
+                BigInt(index),
+              ),
+            );
+          },
+          bytes: (index: number): Uint8Array<ArrayBuffer> => {
+            const size = args.size(index);
+            const data = this.#lib.symbols.webui_interface_get_string_at(
+              win,
+              BigInt(event_number),
+              BigInt(index),
+            );
+            if (data === null || size === 0) {
+              return new Uint8Array();
+            }
+            // Copy, WebUI frees the argument once the event is done
+            return new Uint8Array(
+              Deno.UnsafePointerView.getArrayBuffer(data, size).slice(0),
+            );
+          },
         };
 
         // Create struct
@@ -464,11 +1169,19 @@ export class WebUI {
           eventType: event_type,
           eventNumber: event_number,
           element: element,
+          client: this.#clients.get(client_id) ??
+            new WebUIClient(this, this.#lib, param_event!),
           arg: args,
         };
 
-        // Call the user callback
-        const result: string = (await callback(e) as string) ?? "";
+        // Call the user callback, a thrown error rejects the UI promise
+        let result: string;
+        try {
+          result = (await callback(e) as string) ?? "";
+        } catch (error) {
+          this.#reportError(error, e);
+          result = encodeError(error);
+        }
 
         // Send back the response
         this.#lib.symbols.webui_interface_set_response(
@@ -479,7 +1192,7 @@ export class WebUI {
       },
     );
     // Pass the callback pointer to WebUI
-    this.#lib.symbols.webui_interface_bind(
+    this.#lib.symbols.webui_bind(
       BigInt(this.#window),
       toCString(id),
       callbackResource.pointer,
@@ -487,10 +1200,10 @@ export class WebUI {
   }
 
   /**
-   * Sets a custom files handler to respond to HTTP requests.
+   * Sets a custom files handler to respond to HTTP requests of this window.
    *
-   * @param handler - Callback that takes an URL, and return a full HTTP header
-   * + body. (`string` or `Uint8Array`).
+   * @param handler - Callback that takes an URL and the window, and return a
+   * full HTTP header + body. (`string` or `Uint8Array`).
    *
    * @example
    *
@@ -502,43 +1215,202 @@ export class WebUI {
    *
    * myWindow.setFileHandler(myFileHandler);
    */
-  setFileHandler(callback: (url: URL) => Promise<string | Uint8Array>) {
-    // C: .show_wait_connection = false; // 0
-    // Disable `.show()` auto waiting for window connection,
-    // otherwise `.setFileHandler()` will be blocked.
-    _lib.symbols.webui_set_config(BigInt(0), false);
+  setFileHandler(
+    callback: (url: URL, window: WebUI) => Promise<string | Uint8Array>,
+  ) {
+    this.#fileHandler = callback;
+    this.#ensureFileHandler();
+  }
 
-    // C: .use_cookies = false; // 4
-    // We need to disable WebUI Cookies because
-    // user will use his own custom HTTP header
-    // in `.setFileHandler()`.
-    _lib.symbols.webui_set_config(BigInt(4), false);
+  /**
+   * Sets a handler to respond to HTTP requests with Fetch `Response` objects,
+   * so `Deno.serve`-style handlers and routers can be used directly.
+   * Requests go to this handler before the `setFileHandler()` callback.
+   *
+   * WebUI only forwards the requested path to the backend: the `Request` is
+   * always a `GET`, without the browser headers or body.
+   *
+   * @param handler - Callback that takes a `Request` and returns a
+   * `Response`, or `undefined` to let WebUI serve the file itself.
+   *
+   * @example
+   * ```ts
+   * myWindow.setRequestHandler((req) => {
+   *   const { pathname } = new URL(req.url);
+   *   if (pathname === "/api/time") {
+   *     return Response.json({ now: Date.now() });
+   *   }
+   *   return new Response("Not Found", { status: 404 });
+   * });
+   * ```
+   */
+  setRequestHandler(handler: RequestHandler) {
+    this.#requestHandler = handler;
+    this.#ensureFileHandler();
+  }
 
-    // Let `.show()` knows that the user is using `.setFileHandler()`
-    // so no need to wait for window connection in `.show()`.
-    this.#isFileHandler = true;
+  /**
+   * Serve the UI from in-memory files, so it can ship inside a binary built
+   * with `deno compile`. Requests are answered from these files before the
+   * `setRequestHandler()` and `setFileHandler()` handlers, with MIME types
+   * and SPA fallback like `WebUI.serveStatic()`.
+   *
+   * @param files - File contents by path, e.g. `index.html` or
+   * `assets/app.js`. Use `WebUI.readZip()` to load them from a zip archive.
+   * @param options - `index` file (`index.html`), `spa` fallback to the
+   * index file for paths without an extension, `cacheControl` header.
+   *
+   * @example
+   * ```ts
+   * myWindow.setVirtualFileSystem({
+   *   "index.html": `<html><script src="webui.js"></script> Hello </html>`,
+   *   "assets/logo.png": await Deno.readFile("logo.png"),
+   * });
+   * await myWindow.show("index.html");
+   * ```
+   */
+  setVirtualFileSystem(
+    files: Record<string, Uint8Array | string>,
+    options: ServeStaticOptions = {},
+  ) {
+    this.#virtualFileSystem = serveMemory(files, options, WebUI.mimeType);
+    this.#ensureFileHandler();
+  }
+
+  /**
+   * Serve the UI from a local dev server (Vite, etc.) by forwarding the
+   * window requests to it, after `setVirtualFileSystem()` and
+   * `setRequestHandler()`. HTML pages get `webui.js` injected, so bindings
+   * work without changing the frontend.
+   *
+   * WebSockets are not forwarded: WebUI can't pass upgrades to a file
+   * handler. By default the pages get a shim connecting their WebSockets
+   * (e.g. HMR) directly to the dev server instead, which must then accept
+   * connections from the window origin. Disable it with `webSockets: false`
+   * and configure the HMR client instead.
+   *
+   * @param origin - The dev server URL, e.g. `http://localhost:5173`. Paths
+   * are resolved against it, so a base path like `http://localhost:5173/app/`
+   * is kept.
+   * @param options - `webSockets` shim (`true`).
+   *
+   * @example
+   * ```ts
+   * myWindow.proxyTo("http://localhost:5173");
+   * await myWindow.show("index.html");
+   * ```
+   */
+  proxyTo(origin: string | URL, options: ProxyOptions = {}) {
+    this.#proxy = proxy(origin, options);
+    this.#ensureFileHandler();
+  }
+
+  /**
+   * Add a middleware to the window request handlers. Middleware run in the
+   * order they are added, around `setVirtualFileSystem()` and
+   * `setRequestHandler()`, for cross-cutting concerns like logging,
+   * compression, security headers or API routes.
+   *
+   * @param middleware - Function taking the request context and `next()`,
+   * which resolves with the response of the rest of the chain.
+   *
+   * @example
+   * ```ts
+   * import { compress, logger, route, WebUI } from "@webui/deno-webui";
+   *
+   * myWindow.use(logger());
+   * myWindow.use(compress());
+   * myWindow.use(async (ctx, next) => {
+   *   if (ctx.url.pathname.startsWith("/admin")) {
+   *     return new Response("Forbidden", { status: 403 });
+   *   }
+   *   return await next();
+   * });
+   * myWindow.use(route("/api/users/:id", (_req, ctx) => {
+   *   return Response.json({ id: ctx.params.id });
+   * }));
+   * myWindow.setRequestHandler(WebUI.serveStatic("./dist"));
+   * ```
+   */
+  use(middleware: Middleware) {
+    this.#middlewares.push(middleware);
+    this.#ensureFileHandler();
+  }
+
+  /**
+   * Serve an in-memory file at a fixed path, ahead of the user file handler.
+   */
+  #serveVirtualFile(path: string, type: string, body: string) {
+    const content = new TextEncoder().encode(body);
+    const header = new TextEncoder().encode(
+      `HTTP/1.1 200 OK\r\nContent-Type: ${type}\r\n` +
+        `Content-Length: ${content.byteLength}\r\n` +
+        `Cache-Control: no-cache\r\n\r\n`,
+    );
+    const response = new Uint8Array(header.byteLength + content.byteLength);
+    response.set(header);
+    response.set(content, header.byteLength);
+    this.#virtualFiles.set(path, response);
+    this.#ensureFileHandler();
+  }
+
+  /**
+   * Register the window file handler with WebUI once. Requests are answered
+   * from the virtual files first, then by the user `setRequestHandler()`
+   * and `setFileHandler()` callbacks. An empty response lets WebUI serve the
+   * file itself. A throwing handler is logged and answered with a `500`
+   * response.
+   */
+  #ensureFileHandler() {
+    if (this.#hasFileHandler) return;
+    this.#hasFileHandler = true;
 
     // Create the callback
     const callbackResource = new Deno.UnsafeCallback(
       {
-        // const void* (*handler)(const char *filename, int *length)
-        parameters: ["buffer", "pointer"],
+        // const void* (*handler)(size_t window, const char *filename, int *length)
+        parameters: ["usize", "buffer", "pointer"],
         result: "void",
       } as const,
       async (
+        _param_window: number | bigint,
         param_url: Deno.PointerValue,
         _param_length: Deno.PointerValue,
       ) => {
-        // Get URL as string
-        const url_str: string = param_url !== null
-          ? new Deno.UnsafePointerView(param_url).getCString()
-          : "";
+        // Call the user handlers, a throwing handler is answered with a 500
+        let user_response: string | Uint8Array | undefined;
+        try {
+          // Get URL as string
+          const url_str: string = param_url !== null
+            ? new Deno.UnsafePointerView(param_url).getCString()
+            : "";
+
+          // Create URL Obj
+          const url_obj: URL = new URL(url_str, "http://localhost");
+
+          user_response = this.#virtualFiles.get(url_obj.pathname) ??
+            await this.#handleRequest(url_obj) ??
+            await this.#fileHandler?.(url_obj, this);
+        } catch (error) {
+          console.error(error);
+          user_response = await serializeResponse(
+            new Response("Internal Server Error", { status: 500 }),
+          );
+        }
 
-        // Create URL Obj
-        const url_obj: URL = new URL(url_str, "http://localhost");
+        if (user_response === undefined || user_response.length === 0) {
+          // Not handled, let WebUI serve it
+          this.#lib.symbols.webui_interface_set_response_file_handler(
+            BigInt(this.#window),
+            null,
+            BigInt(0),
+          );
+          return;
+        }
 
-        // Call the user callback
-        const user_response: string | Uint8Array = await callback(url_obj);
+        const response_bytes: Uint8Array = typeof user_response === "string"
+          ? new TextEncoder().encode(user_response)
+          : user_response;
 
         // We can pass a local buffer to WebUI like this:
         // `return Deno.UnsafePointer.of(user_response);` However,
@@ -548,49 +1420,88 @@ export class WebUI {
         // a safe WebUI buffer through WebUI API. This WebUI buffer will
         // be automatically freed by WebUI later.
         const webui_buffer: Deno.PointerValue = _lib.symbols.webui_malloc(
-          BigInt(user_response.length),
+          BigInt(response_bytes.byteLength),
         );
         if (!webui_buffer) {
-          throw new Error("Failed to allocate memory for WebUI buffer");
-        }
-
-        // Copy data to C safe buffer
-        if (typeof user_response === "string") {
-          // copy `user_response` to `webui_buffer` as String data
-          const cString = toCString(user_response);
-          const webui_buffer_ref = new Uint8Array(
-            Deno.UnsafePointerView.getArrayBuffer(
-              webui_buffer,
-              cString.byteLength,
+          // Still answer the request, WebUI serves the file itself
+          console.error(
+            nativeError(
+              this.#lib,
+              WebUIError,
+              "Failed to allocate memory for WebUI buffer",
             ),
           );
-          webui_buffer_ref.set(new Uint8Array(cString));
-        } else {
-          // copy `user_response` to `webui_buffer` as Uint8Array data
-          const webui_buffer_ref = new Uint8Array(
-            Deno.UnsafePointerView.getArrayBuffer(
-              webui_buffer,
-              user_response.byteLength,
-            ),
+          this.#lib.symbols.webui_interface_set_response_file_handler(
+            BigInt(this.#window),
+            null,
+            BigInt(0),
           );
-          webui_buffer_ref.set(user_response);
+          return;
         }
 
+        // Copy data to C safe buffer
+        const webui_buffer_ref = new Uint8Array(
+          Deno.UnsafePointerView.getArrayBuffer(
+            webui_buffer,
+            response_bytes.byteLength,
+          ),
+        );
+        webui_buffer_ref.set(response_bytes);
+
         // Send back the response
         this.#lib.symbols.webui_interface_set_response_file_handler(
           BigInt(this.#window),
           webui_buffer,
-          BigInt(user_response.length),
+          BigInt(response_bytes.byteLength),
         );
       },
     );
-    // Pass the callback pointer to WebUI
-    this.#lib.symbols.webui_set_file_handler(
+    // Pass the callback pointer to WebUI, for this window only
+    this.#lib.symbols.webui_set_file_handler_window(
       BigInt(this.#window),
       callbackResource.pointer,
     );
   }
 
+  /**
+   * Answer a request through the `use()` middleware, then from the
+   * `setVirtualFileSystem()` files, the user `setRequestHandler()` handler
+   * and the `proxyTo()` server. A throwing handler is logged and answered
+   * with a `500` response.
+   */
+  async #handleRequest(url: URL): Promise<Uint8Array | undefined> {
+    if (
+      this.#middlewares.length === 0 &&
+      this.#virtualFileSystem === undefined &&
+      this.#requestHandler === undefined &&
+      this.#proxy === undefined
+    ) {
+      return undefined;
+    }
+    const request = toRequest(url);
+    const ctx = { request, url, window: this, params: {}, state: {} };
+    let response: Response | undefined;
+    try {
+      response = await compose(this.#middlewares, ctx, async () => {
+        for (
+          const handler of [
+            this.#virtualFileSystem,
+            this.#requestHandler,
+            this.#proxy,
+          ]
+        ) {
+          const response = await handler?.(request, ctx);
+          if (response) return await this.#withStubs(response);
+        }
+        return undefined;
+      });
+    } catch (error) {
+      console.error(error);
+      response = new Response("Internal Server Error", { status: 500 });
+    }
+    return response && await serializeResponse(response);
+  }
+
   /**
    * Sets the profile name and path for the current window.
    * @param name - Profile name.
@@ -659,6 +1570,79 @@ export class WebUI {
     );
   }
 
+  /**
+   * Open a binary stream to the UI. Data written to the stream is split into
+   * chunks sent with `sendRaw()`, and writes wait while `window` chunks are
+   * not yet read by the browser. In the UI, `await webuiStream(name)`
+   * resolves to a `ReadableStream<Uint8Array>` of the same data. A stream
+   * opened before the window is shown starts sending once a client
+   * connects.
+   *
+   * @param name - The stream name, used by the UI to pick it up.
+   * @param options - Size of each chunk in bytes, number of unread chunks
+   * allowed, and seconds to wait for the UI to read a chunk (0 means no
+   * timeout), default is `{ chunkSize: 64 * 1024, window: 16, timeout: 0 }`.
+   * @returns The stream to write to. `close()` resolves once the UI has
+   * read everything. Writes reject when the stream is aborted, times out or
+   * the window is closed.
+   * @example
+   * ```ts
+   * myWindow.bind("download", async () => {
+   *   const file = await Deno.open("./video.mp4");
+   *   await file.readable.pipeTo(myWindow.openStream("video"));
+   * });
+   *
+   * // UI
+   * // const stream = await webuiStream("video");
+   * // for await (const chunk of stream) { ... }
+   * ```
+   */
+  openStream(
+    name: string,
+    options?: {
+      chunkSize?: number;
+      window?: number;
+      timeout?: number;
+    },
+  ): WritableStream<Uint8Array> {
+    if (!this.#hasStreamAck) {
+      this.#hasStreamAck = true;
+      this.#bindCallback(STREAM_ACK, (e: WebUIEvent) => {
+        this.#streams.get(e.arg.number(0))?.ack(e.arg.number(1));
+      });
+    }
+    if (!this.#hasEventHub) {
+      this.#ensureEventHub();
+      if (this.isShown) {
+        this.run(bridgeScript({ bound: [], exposed: [] }));
+      }
+    }
+
+    // Frames sent before a client connects would be lost, hold them until
+    // the next connection has the bridge
+    const stop = new AbortController();
+    const id = this.#nextStreamId++;
+    const stream = new OutgoingStream(
+      id,
+      name,
+      (frame) => this.sendRaw(STREAM_RECEIVER, frame),
+      {
+        chunkSize: options?.chunkSize ?? 64 * 1024,
+        window: options?.window ?? 16,
+        timeout: options?.timeout ?? 0,
+        ready: this.isShown
+          ? undefined
+          : this.#events.once("connected", stop.signal),
+      },
+      () => {
+        stop.abort();
+        this.#streams.delete(id);
+      },
+    );
+    this.#streams.set(id, stream);
+    return stream.writable;
+  }
+
   /**
    * Set a window in hidden mode. Should be called before `.show()`.
    *
@@ -824,6 +1808,8 @@ export class WebUI {
    *
    * @param {string} content - The HTML, Or a local file
    * @return Returns the url of this window server.
+   * @throws {PortInUseError} - If the server can't listen on its port.
+   * @throws {WebUIError} - If the server can't be started.
    * @example
    * ```ts
    * const url = myWindow.startServer("/full/root/path");
@@ -834,7 +1820,13 @@ export class WebUI {
       BigInt(this.#window),
       toCString(content),
     );
-    return Deno.UnsafePointerView.getCString(url!);
+    const urlString = url === null
+      ? ""
+      : Deno.UnsafePointerView.getCString(url);
+    if (urlString === "") {
+      throw serverError(this.#lib);
+    }
+    return urlString;
   }
 
   /**
@@ -851,10 +1843,36 @@ export class WebUI {
    * ```
    */
   showWebView(content: string): boolean {
-    return this.#lib.symbols.webui_show_wv(
-      BigInt(this.#window),
-      toCString(content),
-    );
+    const restore = this.#configureShow();
+    try {
+      return this.#lib.symbols.webui_show_wv(
+        BigInt(this.#window),
+        toCString(content),
+      );
+    } finally {
+      restore();
+    }
+  }
+
+  /**
+   * Adjust the process-wide WebUI config for a native show call of this
+   * window, if its requests go to the file handler. WebUI has no per-window
+   * option for these:
+   * - `show_wait_connection` is off during the call only. Waiting natively
+   *   holds the thread that runs the file handler callback (the call blocks
+   *   on macOS and in `showWebView()`), and `show()` waits in JS instead.
+   * - `use_cookies` stays off. Pages served by any raw handler
+   *   (`setFileHandler()`, `setRequestHandler()`, ...) don't carry the WebUI
+   *   cookie, and their reloads must connect too.
+   * @returns Restores `show_wait_connection`.
+   */
+  #configureShow(): () => void {
+    if (!this.#hasFileHandler) return () => {};
+    // C: .use_cookies = false; // 4
+    this.#lib.symbols.webui_set_config(BigInt(4), false);
+    // C: .show_wait_connection = false; // 0
+    this.#lib.symbols.webui_set_config(BigInt(0), false);
+    return () => this.#lib.symbols.webui_set_config(BigInt(0), true);
   }
 
   /**
@@ -1035,7 +2053,7 @@ export class WebUI {
    * ```
    */
   static isHighContrast(): boolean {
-    WebUI.init();
+    WebUI.load();
     return _lib.symbols.webui_is_high_contrast();
   }
 
@@ -1050,7 +2068,7 @@ export class WebUI {
    * ```
    */
   static browserExist(browser: WebUI.Browser): boolean {
-    WebUI.init();
+    WebUI.load();
     return _lib.symbols.webui_browser_exist(BigInt(browser));
   }
 
@@ -1066,7 +2084,7 @@ export class WebUI {
    * ```
    */
   static setDefaultRootFolder(path: string): boolean {
-    WebUI.init();
+    WebUI.load();
     return _lib.symbols.webui_set_default_root_folder(toCString(path));
   }
 
@@ -1080,7 +2098,7 @@ export class WebUI {
    * ```
    */
   static setBrowserFolder(path: string): void {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_set_browser_folder(toCString(path));
   }
 
@@ -1094,7 +2112,7 @@ export class WebUI {
    * ```
    */
   static openUrl(url: string): void {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_open_url(toCString(url));
   }
 
@@ -1108,7 +2126,7 @@ export class WebUI {
    * ```
    */
   static getFreePort(): number {
-    WebUI.init();
+    WebUI.load();
     return Number(_lib.symbols.webui_get_free_port());
   }
 
@@ -1122,10 +2140,64 @@ export class WebUI {
    * ```
    */
   static setFolderMonitor(status: boolean): void {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_set_config(BigInt(2), status);
   }
 
+  /**
+   * Create a request handler serving the files of a directory, for
+   * `setRequestHandler()`. It detects MIME types, and rejects paths outside
+   * `dir`. Missing files are left to WebUI, so `webui.js` is still served.
+   *
+   * WebUI only passes the requested path to the handler, without headers, so
+   * in a window conditional (`If-None-Match`) and range requests are not
+   * supported: files are always sent whole. They are only answered when the
+   * handler is called with a complete `Request`, e.g. from `Deno.serve()`.
+   *
+   * @param {string} dir - The directory to serve.
+   * @param options - `index` file (`index.html`), `spa` fallback to the
+   * index file for paths without an extension, `cacheControl` header.
+   * @return Returns the request handler.
+   * @example
+   * ```ts
+   * myWindow.setRequestHandler(WebUI.serveStatic("./dist", { spa: true }));
+   * ```
+   */
+  static serveStatic(
+    dir: string,
+    options: ServeStaticOptions = {},
+  ): RequestHandler {
+    WebUI.load();
+    return serveStatic(dir, options, WebUI.mimeType);
+  }
+
+  /**
+   * Read the files of a zip archive, for `setVirtualFileSystem()`.
+   *
+   * @param data - The zip archive.
+   * @return Returns the file contents by path inside the archive.
+   * @example
+   * ```ts
+   * // deno compile --include ui.zip main.ts
+   * const ui = await Deno.readFile(new URL("./ui.zip", import.meta.url));
+   * myWindow.setVirtualFileSystem(await WebUI.readZip(ui));
+   * ```
+   */
+  static readZip(
+    data: Uint8Array<ArrayBuffer> | Blob,
+  ): Promise<Record<string, Uint8Array>> {
+    return readZip(data);
+  }
+
+  /**
+   * Get the MIME type of a file name.
+   */
+  private static mimeType(file: string): string {
+    return Deno.UnsafePointerView.getCString(
+      _lib.symbols.webui_get_mime_type(toCString(file))!,
+    );
+  }
+
   /**
    * Wait asynchronously until all opened windows get closed, yielding control
    * back to the caller on each iteration. Useful for WebView mode where you
@@ -1140,24 +2212,142 @@ export class WebUI {
    * ```
    */
   static async waitAsync(): Promise<boolean> {
-    WebUI.init();
+    await WebUI.init();
     return await _lib.symbols.webui_wait_async();
   }
 
+  /**
+   * Load the WebUI library from an explicit path instead of the cache, e.g.
+   * on machines without internet access. Must be called before any other
+   * WebUI API. The `WEBUI_LIB_PATH` environment variable does the same
+   * without code changes.
+   *
+   * @param {string} path - The library file path.
+   * @throws {WebUIError} - If a library is already loaded.
+   * @example
+   * ```ts
+   * WebUI.loadLibrary("./vendor/libwebui-2.so");
+   * const myWindow = new WebUI();
+   * ```
+   */
+  static loadLibrary(path: string): void {
+    if (typeof _lib !== "undefined") {
+      throw new WebUIError(
+        `unable to load "${path}", the WebUI library is already loaded`,
+      );
+    }
+    WebUI.load(path);
+  }
+
   // --[ Static Methods ]------------------------
 
   /**
-   * Initialize WebUI library if it's not already initialized.
+   * Resolve and load the WebUI library, if it's not already loaded. The
+   * library is taken from `WEBUI_LIB_PATH` or the cache, or downloaded into
+   * the cache. Importing this module doesn't touch the library, it is
+   * resolved on the first call to `init()`.
+   *
+   * Other WebUI APIs load the library on their own when it's already in the
+   * cache, await `init()` first to download it when needed.
+   *
+   * @example
+   * ```ts
+   * await WebUI.init();
+   * const myWindow = new WebUI();
+   * ```
+   */
+  static async init(): Promise<void> {
+    if (typeof _lib !== "undefined") return;
+    _libPath ??= resolveLibPath();
+    try {
+      WebUI.load(await _libPath);
+    } catch (error) {
+      // Let the next call retry, e.g. after a network error
+      _libPath = undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Load the WebUI library if it's not already loaded, from `path` or, without
+   * downloading it, from `WEBUI_LIB_PATH` or the cache.
+   * @throws {WebUIError} - If the library needs to be downloaded first.
    */
-  private static init() {
+  private static load(path?: string) {
     if (typeof _lib === "undefined") {
-      _lib = loadLib();
+      path ??= findLibPath();
+      if (path === undefined) {
+        throw new WebUIError(
+          "the WebUI library isn't downloaded yet, call `await WebUI.init()` before any other WebUI API, or set WEBUI_LIB_PATH",
+        );
+      }
+      _lib = loadLib(path);
       // C: .asynchronous_response = true; // 5
       // Enable async calls, this is needed for `.bind()`
       _lib.symbols.webui_set_config(BigInt(5), true);
     }
   }
 
+  /**
+   * Route the log messages of the WebUI library into Deno. Messages below
+   * `level` are dropped. Which messages are emitted depends on the WebUI
+   * library build.
+   *
+   * @param logger - A `(level, message)` callback, or an object with
+   * `debug`, `info` and `error` methods such as `console` (the default) or
+   * a `@std/log` logger. `null` stops logging.
+   * @param options - The minimum `level`, default is `WebUI.LogLevel.Info`.
+   * @example
+   * ```ts
+   * // Print core errors to the console
+   * WebUI.setLogger(console, { level: WebUI.LogLevel.Error });
+   *
+   * // Forward everything to @std/log
+   * import * as log from "@std/log";
+   * WebUI.setLogger(log.getLogger("webui"), { level: WebUI.LogLevel.Debug });
+   *
+   * // Custom handler
+   * WebUI.setLogger((level, message) => logs.push({ level, message }));
+   * ```
+   */
+  static setLogger(
+    logger: LogHandler | LogTarget | null = console,
+    options?: { level?: WebUI.LogLevel },
+  ): void {
+    WebUI.load();
+    const level = options?.level ?? WebUI.LogLevel.Info;
+    const previous = _logger;
+    _logger = undefined;
+    if (logger !== null) {
+      const handler: LogHandler = typeof logger === "function"
+        ? logger
+        : (level, message) => {
+          if (level === WebUI.LogLevel.Debug) logger.debug(message);
+          else if (level === WebUI.LogLevel.Info) logger.info(message);
+          else logger.error(message);
+        };
+      _logger = new Deno.UnsafeCallback(
+        loggerDefinition,
+        (
+          param_level: number | bigint,
+          param_log: Deno.PointerValue,
+          _param_user_data: Deno.PointerValue,
+        ) => {
+          if (Number(param_level) < level || param_log === null) return;
+          const message = new Deno.UnsafePointerView(param_log).getCString()
+            .trimEnd();
+          try {
+            handler(Number(param_level), message);
+          } catch (error) {
+            console.error(error);
+          }
+        },
+      );
+    }
+    _lib.symbols.webui_set_logger(_logger?.pointer ?? null, null);
+    previous?.close();
+  }
+
   /**
    * Tries to close all opened windows and make WebUI.wait() break.
    * @example
@@ -1175,7 +2365,7 @@ export class WebUI {
    * ```
    */
   static exit() {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_exit();
   }
 
@@ -1183,7 +2373,7 @@ export class WebUI {
    * Set certificate
    * @param certificatePem Set certificate
    * @param privateKeyPem Set private key
-   * @throws {WebUIError} - If lib return false status.
+   * @throws {TlsError} - If the certificate or key is rejected.
    * @example
    * ```ts
    * const myWindow = new WebUI()
@@ -1203,13 +2393,13 @@ export class WebUI {
    * ```
    */
   static setTLSCertificate(certificatePem: string, privateKeyPem: string) {
-    WebUI.init();
+    WebUI.load();
     const status = _lib.symbols.webui_set_tls_certificate(
       toCString(certificatePem),
       toCString(privateKeyPem),
     );
     if (!status) {
-      throw new WebUIError(`unable to set certificate`);
+      throw nativeError(_lib, TlsError, `unable to set certificate`);
     }
   }
 
@@ -1227,7 +2417,7 @@ export class WebUI {
    * ```
    */
   static async wait() {
-    WebUI.init();
+    await WebUI.init();
     const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
     while (1) {
       // Sleep for a short time to avoid busy waiting and high CPU usage.
@@ -1250,7 +2440,7 @@ export class WebUI {
    * @param allow - True or False.
    */
   static setMultiClient(allow: boolean): void {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_set_config(BigInt(3), allow);
   }
 
@@ -1258,7 +2448,7 @@ export class WebUI {
    * Delete all local web-browser profiles folder.
    */
   static deleteAllProfiles(): void {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_delete_all_profiles();
   }
 
@@ -1269,7 +2459,7 @@ export class WebUI {
    * @return - The encoded string.
    */
   static encode(str: string): string {
-    WebUI.init();
+    WebUI.load();
     return (
       new Deno.UnsafePointerView(
         _lib.symbols.webui_encode(toCString(str)) as Deno.PointerObject<
@@ -1286,7 +2476,7 @@ export class WebUI {
    * @return - The decoded string.
    */
   static decode(str: string): string {
-    WebUI.init();
+    WebUI.load();
     return (
       new Deno.UnsafePointerView(
         _lib.symbols.webui_decode(toCString(str)) as Deno.PointerObject<
@@ -1303,7 +2493,7 @@ export class WebUI {
    * @return - A pointer to the allocated memory block.
    */
   static malloc(size: number): Deno.PointerValue {
-    WebUI.init();
+    WebUI.load();
     return _lib.symbols.webui_malloc(BigInt(size));
   }
 
@@ -1313,7 +2503,7 @@ export class WebUI {
    * @param ptr - The pointer to the memory block.
    */
   static free(ptr: Deno.PointerValue): void {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_free(ptr);
   }
 
@@ -1323,7 +2513,7 @@ export class WebUI {
    * @param second - The timeout duration in seconds.
    */
   static setTimeout(second: number): void {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_set_timeout(BigInt(second));
   }
 
@@ -1331,7 +2521,7 @@ export class WebUI {
    * Clean all memory resources. WebUI is not usable after this call.
    */
   static clean() {
-    WebUI.init();
+    WebUI.load();
     _lib.symbols.webui_clean();
   }
 
@@ -1382,6 +2572,14 @@ export namespace WebUI {
     Navigation, // 3. Window navigation event
     Callback, // 4. Function call event
   }
+  /**
+   * Enum representing the levels of the WebUI library log messages.
+   */
+  export enum LogLevel {
+    Debug = 0, // 0. Debug message
+    Info, // 1. Info message
+    Error, // 2. Error message
+  }
   /**
    * Enum for the JavaScript runtime used to execute `.js` and `.ts` files.
    */
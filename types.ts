@@ -0,0 +1,51 @@
+/**
+ * Types of Deno WebUI, without any runtime code. Importing this module
+ * needs no permissions and never loads the WebUI library.
+ *
+ * ```ts
+ * import type { WebUI, WebUIEvent } from "jsr:@webui/deno-webui/types";
+ *
+ * function onClick(window: WebUI, event: WebUIEvent) {
+ *   // ...
+ * }
+ * ```
+ *
+ * @module
+ */
+export type { WebUI } from "./src/webui.ts";
+export type {
+  WebUIClient,
+  WebUIClients,
+  WebUIClientsEventMap,
+} from "./src/client.ts";
+export type { Listener } from "./src/events.ts";
+export type { ServeStaticOptions } from "./src/static.ts";
+export type { ProxyOptions } from "./src/proxy.ts";
+export type { DevOptions, DevWatcher } from "./src/dev.ts";
+export type {
+  BrowserLaunchError,
+  BrowserNotFoundError,
+  ConnectionTimeoutError,
+  IntegrityError,
+  PortInUseError,
+  ScriptTimeoutError,
+  TlsError,
+  WebUIError,
+  WebUIErrorOptions,
+} from "./src/errors.ts";
+export type {
+  ApiClient,
+  BindCallback,
+  Datatypes,
+  ExposedFunction,
+  LogHandler,
+  LogTarget,
+  Middleware,
+  MiddlewareContext,
+  RequestContext,
+  RequestHandler,
+  Serializable,
+  WebUIEvent,
+  WebUIEventMap,
+  WebUINavigationEvent,
+} from "./src/types.ts";